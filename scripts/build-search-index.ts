@@ -0,0 +1,41 @@
+/**
+ * Builds the Orama search index at build time and writes it next to the
+ * venue data, so the client can load it instead of indexing on every visit.
+ * Run with: npm run build-index (after fetch-venues)
+ */
+
+import { writeFileSync, existsSync, readFileSync } from 'fs';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import type { Venue } from '../src/data/venues';
+import { upgradeLegacyVenue } from '../src/data/legacy';
+import { staticVenues } from '../src/data/staticVenues';
+import { createSnapshot } from '../src/lib/searchIndex';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const GENERATED_PATH = resolve(__dirname, '../src/data/venues-generated.json');
+const OUTPUT_PATH = resolve(__dirname, '../src/data/search-index.json');
+
+// Same choice src/data/venues.ts makes: generated data if present, otherwise static
+function loadVenues(): Venue[] {
+  if (existsSync(GENERATED_PATH)) {
+    console.log('📍 Indexing venues from venues-generated.json');
+    return (JSON.parse(readFileSync(GENERATED_PATH, 'utf-8')) as Venue[]).map(upgradeLegacyVenue);
+  }
+
+  console.log('📦 Indexing static fallback venues');
+  return staticVenues;
+}
+
+async function main() {
+  const start = performance.now();
+  const snapshot = await createSnapshot(loadVenues());
+  const output = JSON.stringify(snapshot);
+  writeFileSync(OUTPUT_PATH, output);
+
+  console.log(`✅ Saved search index for ${snapshot.venueCount} venues to search-index.json`);
+  console.log(`   Version ${snapshot.version}, ${(output.length / 1024).toFixed(1)} KB, built in ${(performance.now() - start).toFixed(1)}ms`);
+}
+
+main();
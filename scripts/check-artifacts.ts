@@ -0,0 +1,56 @@
+/**
+ * Fails the build if an API key made it into anything we ship: the bundle
+ * in dist/, and the generated data it's built from.
+ * Run with: npm run check-artifacts (after vite build)
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { resolve, dirname, relative } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = resolve(__dirname, '..');
+
+const ARTIFACTS = [
+  resolve(ROOT, 'dist'),
+  resolve(ROOT, 'src/data/venues-generated.json'),
+  resolve(ROOT, 'src/data/search-index.json'),
+];
+
+// Any Google API key, and any Maps API URL with a key parameter
+const KEY_PATTERNS = [
+  /AIza[0-9A-Za-z_-]{35}/,
+  /maps\.googleapis\.com\/[^"'\s]*[?&]key=/,
+];
+
+function listFiles(path: string): string[] {
+  if (!existsSync(path)) return [];
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path).flatMap(name => listFiles(resolve(path, name)));
+}
+
+function findLeaks(file: string, apiKey: string | undefined): string[] {
+  // latin1 keeps binary files (photos, fonts) searchable byte for byte
+  const content = readFileSync(file, 'latin1');
+  const leaks = KEY_PATTERNS.filter(pattern => pattern.test(content)).map(pattern => `matches ${pattern}`);
+  if (apiKey && content.includes(apiKey)) leaks.push('contains GOOGLE_PLACES_API_KEY');
+  return leaks;
+}
+
+function main() {
+  const apiKey = process.env.GOOGLE_PLACES_API_KEY || undefined;
+  const files = ARTIFACTS.flatMap(listFiles);
+  const leaks = files.flatMap(file => findLeaks(file, apiKey).map(reason => `${relative(ROOT, file)}: ${reason}`));
+
+  if (leaks.length > 0) {
+    console.error(`❌ API key found in ${leaks.length} build artifact(s):`);
+    for (const leak of leaks) {
+      console.error(`   - ${leak}`);
+    }
+    process.exit(1);
+  }
+
+  console.log(`✅ No API keys in ${files.length} build artifact(s)`);
+}
+
+main();
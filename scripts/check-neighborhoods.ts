@@ -0,0 +1,59 @@
+/**
+ * Checks the static fallback venues against the neighborhood boundaries,
+ * using the same assignment fetch-venues applies to fetched venues.
+ * Fails if a venue's neighborhood isn't the one its coordinates fall in, or
+ * if its coordinates are outside every boundary.
+ * Run with: npm run check-neighborhoods
+ */
+
+import { staticVenues } from '../src/data/staticVenues';
+import { assignNeighborhood } from './neighborhood-boundaries';
+
+function main() {
+  const mismatches: string[] = [];
+  const outside: string[] = [];
+  const unplaced: string[] = [];
+
+  for (const venue of staticVenues) {
+    if (typeof venue.lat !== 'number' || typeof venue.lng !== 'number') {
+      unplaced.push(venue.name);
+      continue;
+    }
+
+    const { neighborhood, inside, distanceMiles } = assignNeighborhood({ lat: venue.lat, lng: venue.lng });
+    if (!inside) {
+      outside.push(`${venue.name}: nearest centroid is ${neighborhood} (${distanceMiles.toFixed(1)} mi)`);
+    }
+    if (neighborhood !== venue.neighborhood) {
+      mismatches.push(`${venue.name}: listed in ${venue.neighborhood}, located in ${neighborhood}`);
+    }
+  }
+
+  if (unplaced.length > 0) {
+    console.warn(`⚠️  ${unplaced.length} static venue(s) without coordinates can't be checked:`);
+    for (const name of unplaced) {
+      console.warn(`   - ${name}`);
+    }
+  }
+
+  if (outside.length > 0) {
+    console.error(`❌ ${outside.length} static venue(s) outside every neighborhood boundary:`);
+    for (const line of outside) {
+      console.error(`   - ${line}`);
+    }
+  }
+
+  if (mismatches.length > 0) {
+    console.error(`❌ ${mismatches.length} static venue(s) in the wrong neighborhood:`);
+    for (const line of mismatches) {
+      console.error(`   - ${line}`);
+    }
+  }
+
+  if (outside.length > 0 || mismatches.length > 0) process.exit(1);
+
+  const matched = staticVenues.length - unplaced.length - outside.length - mismatches.length;
+  console.log(`✅ ${matched} static venue(s) match their neighborhood boundaries`);
+}
+
+main();
@@ -2,12 +2,19 @@
  * Fetches venue data from Google Places API at build time.
  * Run with: npm run fetch-venues
  *
- * Requires GOOGLE_PLACES_API_KEY environment variable.
+ * Requires GOOGLE_PLACES_API_KEY environment variable, or PLACES_MODE=replay
+ * to run from recorded fixtures (see places-api.ts).
  */
 
-import { writeFileSync, existsSync, readFileSync } from 'fs';
-import { resolve, dirname } from 'path';
+import { writeFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { resolve, dirname, relative } from 'path';
 import { fileURLToPath } from 'url';
+import { parseDeal, type DealItem } from '../src/lib/deals';
+import { formatMinutes, WEEKDAYS } from '../src/lib/schedule';
+import { assignNeighborhood } from './neighborhood-boundaries';
+import { getVenuePhoto, publishPhotos } from './photos';
+import { BudgetExceededError, formatUsage, pause, placesMode, placesRequest } from './places-api';
+import { diffVenues, formatDiffReport, removedFraction } from './venue-diff';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -22,16 +29,43 @@ interface PlaceResult {
   user_ratings_total?: number;
   price_level?: number;
   types?: string[];
-  opening_hours?: {
-    weekday_text?: string[];
-    open_now?: boolean;
-  };
+  opening_hours?: OpeningHours;
   photos?: Array<{
     photo_reference: string;
   }>;
   vicinity?: string;
 }
 
+interface OpeningPeriod {
+  open: { day: number; time: string };
+  close?: { day: number; time: string };
+}
+
+interface OpeningHours {
+  weekday_text?: string[];
+  periods?: OpeningPeriod[];
+  open_now?: boolean;
+}
+
+type DealSource = 'curated' | 'user-submitted' | 'unverified';
+
+interface CuratedDeal {
+  dealText: string;
+  drinks?: string[];
+  food?: string[];
+  source?: Exclude<DealSource, 'unverified'>;
+}
+
+// Curated deals keyed by placeId. A null entry retracts a deal that has
+// ended, so the venue goes back to unverified.
+type CuratedDeals = Record<string, CuratedDeal | null>;
+
+interface HappyHourWindow {
+  days: string[];
+  startTime: string;
+  endTime: string;
+}
+
 interface Venue {
   id: string;
   name: string;
@@ -39,12 +73,12 @@ interface Venue {
   address: string;
   cuisine: string;
   dealText: string;
+  dealSource: DealSource;
+  dealItems: DealItem[];
   drinks: string[];
   food: string[];
   priceLevel: number;
-  days: string[];
-  startTime: string;
-  endTime: string;
+  schedule: HappyHourWindow[];
   rating: number;
   ratingsCount: number;
   image: string;
@@ -56,23 +90,189 @@ interface Venue {
 }
 
 const API_KEY = process.env.GOOGLE_PLACES_API_KEY;
-const OUTPUT_PATH = resolve(__dirname, '../src/data/venues-generated.json');
-const CACHE_PATH = resolve(__dirname, '../.venues-cache.json');
+const ROOT = resolve(__dirname, '..');
+const CURATED_DEALS_PATH = resolve(ROOT, 'src/data/curated-deals.json');
+
+// Replays write their venues, cache and report to .replay/ instead, so fixture
+// venues never end up in the data a build publishes
+const REPLAY_DIR = resolve(ROOT, '.replay');
+const OUTPUT_PATH = placesMode === 'replay'
+  ? resolve(REPLAY_DIR, 'venues-generated.json')
+  : resolve(ROOT, 'src/data/venues-generated.json');
+const CACHE_PATH = placesMode === 'replay' ? resolve(REPLAY_DIR, 'venues-cache.json') : resolve(ROOT, '.venues-cache.json');
+const DIFF_PATH = placesMode === 'replay' ? resolve(REPLAY_DIR, 'venues-diff.md') : resolve(ROOT, '.venues-diff.md');
+
+// Refuse to publish a fetch that loses more than this share of the last one's
+// venues; a quota problem or a bad query looks like half of Austin closing
+const MAX_REMOVED_FRACTION = Number(process.env.VENUES_MAX_REMOVED || 0.3);
+if (!(MAX_REMOVED_FRACTION >= 0)) {
+  throw new Error(`VENUES_MAX_REMOVED must be a fraction like 0.3, got "${process.env.VENUES_MAX_REMOVED}"`);
+}
 
-// Austin neighborhoods to search
+// Searches that cover the Austin neighborhoods we list. A venue's
+// neighborhood comes from its coordinates, not from the search that found it.
 const SEARCH_QUERIES = [
-  { query: 'happy hour downtown Austin TX', neighborhood: 'Downtown' },
-  { query: 'happy hour East Austin TX', neighborhood: 'East Austin' },
-  { query: 'happy hour South Lamar Austin TX', neighborhood: 'South Lamar' },
-  { query: 'happy hour Rainey Street Austin TX', neighborhood: 'Rainey Street' },
-  { query: 'happy hour South Congress Austin TX', neighborhood: 'South Congress' },
-  { query: 'happy hour North Loop Austin TX', neighborhood: 'North Loop' },
-  { query: 'happy hour Mueller Austin TX', neighborhood: 'Mueller' },
-  { query: 'bars and restaurants 6th street Austin TX', neighborhood: 'Sixth Street' },
-  { query: 'cocktail bars Austin TX', neighborhood: 'Downtown' },
-  { query: 'breweries Austin TX', neighborhood: 'East Austin' },
+  'happy hour downtown Austin TX',
+  'happy hour East Austin TX',
+  'happy hour South Lamar Austin TX',
+  'happy hour Rainey Street Austin TX',
+  'happy hour South Congress Austin TX',
+  'happy hour North Loop Austin TX',
+  'happy hour Mueller Austin TX',
+  'bars and restaurants 6th street Austin TX',
+  'cocktail bars Austin TX',
+  'breweries Austin TX',
 ];
 
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// Assumed happy hour before clamping to the venue's real opening hours
+const DEFAULT_HAPPY_HOUR = {
+  days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+  start: 16 * 60, // 4:00 PM
+  end: 19 * 60,   // 7:00 PM
+};
+
+type Interval = [number, number];
+
+// "1630" -> minutes since midnight
+function parseHHMM(time: string): number {
+  return parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(2), 10);
+}
+
+// "4:30 PM" -> minutes since midnight; meridiem falls back to the given one ("5:00 – 10:00 PM")
+function parseClockTime(text: string, fallbackMeridiem?: string): number | null {
+  const match = text.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10) % 12;
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = (match[3] || fallbackMeridiem || 'AM').toUpperCase();
+  if (meridiem === 'PM') hours += 12;
+
+  return hours * 60 + minutes;
+}
+
+// Open intervals per weekday (0 = Sunday) from structured periods, clipped to each calendar day
+function getOpenIntervalsFromPeriods(periods: OpeningPeriod[]): Interval[][] {
+  const byDay: Interval[][] = WEEKDAYS.map(() => []);
+
+  // A single period with no close time means open 24/7
+  if (periods.length === 1 && !periods[0].close) {
+    return byDay.map(() => [[0, MINUTES_PER_DAY]]);
+  }
+
+  for (const period of periods) {
+    if (!period.close) continue;
+
+    const open = period.open.day * MINUTES_PER_DAY + parseHHMM(period.open.time);
+    let close = period.close.day * MINUTES_PER_DAY + parseHHMM(period.close.time);
+    if (close <= open) close += MINUTES_PER_WEEK; // wraps Saturday night into Sunday
+
+    // Check the interval and its copy shifted back a week so Sunday picks up Saturday's late close
+    for (const offset of [0, -MINUTES_PER_WEEK]) {
+      for (let day = 0; day < 7; day++) {
+        const dayStart = day * MINUTES_PER_DAY;
+        const start = Math.max(open + offset, dayStart);
+        const end = Math.min(close + offset, dayStart + MINUTES_PER_DAY);
+        if (end > start) {
+          byDay[day].push([start - dayStart, end - dayStart]);
+        }
+      }
+    }
+  }
+
+  return byDay;
+}
+
+// Open intervals per weekday (0 = Sunday) from lines like "Monday: 11:00 AM – 2:00 PM, 5:00 – 10:00 PM"
+function getOpenIntervalsFromWeekdayText(weekdayText: string[]): Interval[][] | null {
+  const byDay: Interval[][] = WEEKDAYS.map(() => []);
+  let parsedAny = false;
+
+  for (const line of weekdayText) {
+    // Google separates times with narrow/thin no-break spaces and en dashes
+    const normalized = line.replace(/[\u202f\u2009\u00a0]/g, ' ');
+    const separator = normalized.indexOf(':');
+    if (separator === -1) continue;
+
+    const day = WEEKDAYS.indexOf(normalized.slice(0, separator).trim());
+    if (day === -1) continue;
+    parsedAny = true;
+
+    const hours = normalized.slice(separator + 1).trim();
+    if (/closed/i.test(hours)) continue;
+    if (/open 24 hours/i.test(hours)) {
+      byDay[day].push([0, MINUTES_PER_DAY]);
+      continue;
+    }
+
+    for (const range of hours.split(',')) {
+      const [startText, endText] = range.split(/\s*[–-]\s*/);
+      if (!startText || !endText) continue;
+
+      const endMeridiem = endText.match(/(AM|PM)/i)?.[1];
+      const start = parseClockTime(startText, endMeridiem);
+      const end = parseClockTime(endText);
+      if (start === null || end === null) continue;
+
+      // Past-midnight closes are clipped to the end of the day
+      byDay[day].push([start, end <= start ? MINUTES_PER_DAY : end]);
+    }
+  }
+
+  return parsedAny ? byDay : null;
+}
+
+function getOpenIntervals(hours: OpeningHours | undefined): Interval[][] | null {
+  if (hours?.periods?.length) return getOpenIntervalsFromPeriods(hours.periods);
+  if (hours?.weekday_text?.length) return getOpenIntervalsFromWeekdayText(hours.weekday_text);
+  return null;
+}
+
+
+// Clamp the default happy hour to when the venue is open on each day. Days where
+// the venue is closed during happy hour are dropped and days with the same clamped
+// times share a window. Returns an empty schedule when there is no overlap at all.
+function deriveHappyHour(hours: OpeningHours | undefined): HappyHourWindow[] {
+  const openIntervals = getOpenIntervals(hours);
+
+  // No hours from Google - keep the default rather than guessing
+  if (!openIntervals) {
+    return [{
+      days: [...DEFAULT_HAPPY_HOUR.days],
+      startTime: formatMinutes(DEFAULT_HAPPY_HOUR.start),
+      endTime: formatMinutes(DEFAULT_HAPPY_HOUR.end),
+    }];
+  }
+
+  const windows: HappyHourWindow[] = [];
+
+  for (const dayName of DEFAULT_HAPPY_HOUR.days) {
+    // Longest stretch of the happy hour window the venue is open for on this day
+    let best: Interval | null = null;
+    for (const [open, close] of openIntervals[WEEKDAYS.indexOf(dayName)]) {
+      const overlap: Interval = [Math.max(open, DEFAULT_HAPPY_HOUR.start), Math.min(close, DEFAULT_HAPPY_HOUR.end)];
+      if (overlap[1] > overlap[0] && (!best || overlap[1] - overlap[0] > best[1] - best[0])) {
+        best = overlap;
+      }
+    }
+    if (!best) continue;
+
+    const startTime = formatMinutes(best[0]);
+    const endTime = formatMinutes(best[1]);
+    const existing = windows.find(w => w.startTime === startTime && w.endTime === endTime);
+    if (existing) {
+      existing.days.push(dayName);
+    } else {
+      windows.push({ days: [dayName], startTime, endTime });
+    }
+  }
+
+  return windows;
+}
+
 // Map place types to cuisine/venue type
 function getCuisineFromTypes(types: string[]): string {
   if (types.includes('bar')) return 'Bar';
@@ -91,51 +291,27 @@ function getCuisineFromTypes(types: string[]): string {
   return 'Bar & Grill';
 }
 
-// Generate placeholder happy hour deal text
-function generateDealText(priceLevel: number, cuisine: string): string {
-  const deals = [
-    '$5 wells, $4 draft beers',
-    '$6 house wine, $7 cocktails',
-    '$4 local drafts, half-price apps',
-    '$3 Lone Stars, $5 margaritas',
-    '$2 off all drinks, $5 snacks',
-    '$6 craft cocktails, $4 beer',
-    '$5 sake, $6 beer specials',
-    '$7 signature cocktails',
-    '$4 pints, $6 wines by the glass',
-    '$5 frozen drinks, $3 tacos',
-  ];
-  return deals[Math.floor(Math.random() * deals.length)];
-}
+// Shown for venues with no curated deal - never invent specific prices
+const UNVERIFIED_DEAL_TEXT = 'Happy hour specials - deals not yet verified';
 
-// Get drinks based on cuisine type
-function getDrinks(cuisine: string): string[] {
-  const drinkMap: Record<string, string[]> = {
-    'Mexican': ['margaritas', 'tequila', 'beer', 'mezcal'],
-    'Japanese': ['sake', 'japanese whiskey', 'beer', 'cocktails'],
-    'Italian': ['wine', 'aperol spritz', 'negroni', 'beer'],
-    'French': ['wine', 'champagne', 'cocktails'],
-    'Brewery': ['craft beer', 'cider', 'local brews'],
-    'Bar': ['cocktails', 'beer', 'whiskey', 'wine'],
-    'Thai': ['thai beer', 'cocktails', 'wine'],
-    'default': ['beer', 'wine', 'cocktails'],
-  };
-  return drinkMap[cuisine] || drinkMap['default'];
+// Load curated deals keyed by placeId. Null if the overlay is missing or
+// unreadable, so the last published deals are kept rather than dropped.
+function loadCuratedDeals(): CuratedDeals | null {
+  if (!existsSync(CURATED_DEALS_PATH)) {
+    console.warn('⚠️  curated-deals.json not found, keeping the last published deals');
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(CURATED_DEALS_PATH, 'utf-8'));
+  } catch (error) {
+    console.warn(`⚠️  curated-deals.json could not be read (${(error as Error).message}), keeping the last published deals`);
+    return null;
+  }
 }
 
-// Get food based on cuisine type
-function getFood(cuisine: string): string[] {
-  const foodMap: Record<string, string[]> = {
-    'Mexican': ['tacos', 'queso', 'guacamole', 'nachos'],
-    'Japanese': ['sushi', 'edamame', 'gyoza'],
-    'Italian': ['pizza', 'bruschetta', 'antipasti'],
-    'French': ['frites', 'charcuterie', 'oysters'],
-    'Brewery': ['pretzels', 'wings', 'nachos'],
-    'Bar': ['wings', 'fries', 'sliders'],
-    'Thai': ['spring rolls', 'satay', 'curry puffs'],
-    'default': ['appetizers', 'bar snacks'],
-  };
-  return foodMap[cuisine] || foodMap['default'];
+// A venue with its deal withdrawn
+function retractDeal(venue: Venue): Venue {
+  return { ...venue, dealText: UNVERIFIED_DEAL_TEXT, dealSource: 'unverified', dealItems: [], drinks: [], food: [] };
 }
 
 // Get emoji for cuisine type
@@ -157,62 +333,102 @@ function getEmoji(cuisine: string): string {
   return emojiMap[cuisine] || '🍻';
 }
 
+interface PlacesResponse<T> {
+  status: string;
+  error_message?: string;
+  results?: T[];
+  result?: T;
+  next_page_token?: string;
+}
+
+// Text search returns 20 results a page and at most 3 pages
+const MAX_SEARCH_PAGES = 3;
+// A next_page_token only becomes valid a couple of seconds after it's issued
+const PAGE_TOKEN_DELAY_MS = 2000;
+
+// All pages of a text search. A page that fails ends the search with the
+// results so far; running out of budget after the first page does the same,
+// and the next request will hit the budget again and stop the fetch.
 async function searchPlaces(query: string): Promise<PlaceResult[]> {
-  const url = new URL('https://maps.googleapis.com/maps/api/place/textsearch/json');
-  url.searchParams.set('query', query);
-  url.searchParams.set('key', API_KEY!);
-  url.searchParams.set('type', 'bar|restaurant');
+  const results: PlaceResult[] = [];
+  let pageToken: string | undefined;
+
+  for (let page = 1; page <= MAX_SEARCH_PAGES; page++) {
+    let data: PlacesResponse<PlaceResult>;
+    if (pageToken) {
+      await pause(PAGE_TOKEN_DELAY_MS);
+      try {
+        // Asking too early answers INVALID_REQUEST, so that's retried too
+        data = await placesRequest('textsearch', { query, pagetoken: pageToken }, API_KEY, ['INVALID_REQUEST']) as PlacesResponse<PlaceResult>;
+      } catch (error) {
+        if (!(error instanceof BudgetExceededError)) throw error;
+        console.warn(`    ⚠️  API budget reached, keeping ${page - 1} page(s)`);
+        break;
+      }
+    } else {
+      data = await placesRequest('textsearch', { query, type: 'bar|restaurant' }, API_KEY) as PlacesResponse<PlaceResult>;
+    }
 
-  const response = await fetch(url.toString());
-  const data = await response.json();
+    if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
+      console.error(`Places API error for "${query}" (page ${page}):`, data.status, data.error_message);
+      break;
+    }
 
-  if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
-    console.error(`Places API error for "${query}":`, data.status, data.error_message);
-    return [];
+    results.push(...(data.results || []));
+    pageToken = data.next_page_token;
+    if (!pageToken) break;
   }
 
-  return data.results || [];
+  return results;
 }
 
 async function getPlaceDetails(placeId: string): Promise<Partial<PlaceResult> | null> {
-  const url = new URL('https://maps.googleapis.com/maps/api/place/details/json');
-  url.searchParams.set('place_id', placeId);
-  url.searchParams.set('key', API_KEY!);
-  url.searchParams.set('fields', 'opening_hours,price_level,types,photos');
-
-  const response = await fetch(url.toString());
-  const data = await response.json();
+  const data = await placesRequest('details', {
+    place_id: placeId,
+    fields: 'opening_hours,price_level,types,photos',
+  }, API_KEY) as PlacesResponse<Partial<PlaceResult>>;
 
   if (data.status !== 'OK') {
+    console.warn(`  ⚠️  Place details failed for ${placeId}: ${data.status}`);
     return null;
   }
 
-  return data.result;
+  return data.result || null;
 }
 
-function getPhotoUrl(photoReference: string, maxWidth: number = 400): string {
-  return `https://maps.googleapis.com/maps/api/place/photo?maxwidth=${maxWidth}&photo_reference=${photoReference}&key=${API_KEY}`;
+interface FetchResult {
+  venues: Venue[];
+  // False when the budget ran out, so a venue missing from venues may just not have been reached
+  complete: boolean;
+  // Null when the overlay couldn't be loaded
+  curatedDeals: CuratedDeals | null;
 }
 
-async function fetchAllVenues(): Promise<Venue[]> {
+async function fetchAllVenues(): Promise<FetchResult> {
   console.log('🔍 Fetching venues from Google Places API...\n');
 
-  const allPlaces = new Map<string, { place: PlaceResult; neighborhood: string }>();
+  const allPlaces = new Map<string, PlaceResult>();
+  let complete = true;
 
   // Search each neighborhood
-  for (const { query, neighborhood } of SEARCH_QUERIES) {
+  for (const [i, query] of SEARCH_QUERIES.entries()) {
     console.log(`  Searching: ${query}`);
-    const places = await searchPlaces(query);
+    let places: PlaceResult[];
+    try {
+      places = await searchPlaces(query);
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) throw error;
+      console.warn(`\n⚠️  API budget reached, skipping ${SEARCH_QUERIES.length - i} search(es)`);
+      complete = false;
+      break;
+    }
     console.log(`    Found ${places.length} results`);
 
     for (const place of places) {
       if (!allPlaces.has(place.place_id)) {
-        allPlaces.set(place.place_id, { place, neighborhood });
+        allPlaces.set(place.place_id, place);
       }
     }
-
-    // Rate limiting - be nice to the API
-    await new Promise(r => setTimeout(r, 200));
   }
 
   console.log(`\n📍 Total unique venues: ${allPlaces.size}`);
@@ -220,31 +436,59 @@ async function fetchAllVenues(): Promise<Venue[]> {
 
   // Sort by rating and take top 50
   const sortedPlaces = Array.from(allPlaces.values())
-    .filter(({ place }) => place.rating && place.rating >= 3.5)
-    .sort((a, b) => (b.place.rating || 0) - (a.place.rating || 0))
+    .filter(place => place.rating && place.rating >= 3.5)
+    .sort((a, b) => (b.rating || 0) - (a.rating || 0))
     .slice(0, 50);
 
+  const curatedDeals = loadCuratedDeals();
+  const overlay = curatedDeals ?? {};
   const venues: Venue[] = [];
+  const skipped: string[] = [];
+  const unparsedDeals: { name: string; fragments: string[] }[] = [];
+  const outsideBoundaries: { name: string; neighborhood: string; distanceMiles: number }[] = [];
 
-  for (const { place, neighborhood } of sortedPlaces) {
+  for (const [i, place] of sortedPlaces.entries()) {
     // Get additional details
-    const details = await getPlaceDetails(place.place_id);
-    await new Promise(r => setTimeout(r, 100)); // Rate limit
+    let details: Partial<PlaceResult> | null;
+    try {
+      details = await getPlaceDetails(place.place_id);
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) throw error;
+      console.warn(`\n⚠️  API budget reached, skipping ${sortedPlaces.length - i} venue(s)`);
+      complete = false;
+      break;
+    }
 
     const types = details?.types || place.types || [];
     const cuisine = getCuisineFromTypes(types);
     const priceLevel = details?.price_level || place.price_level || 2;
 
-    // Get photo URL if available
-    let photoUrl: string | null = null;
-    if (details?.photos?.[0]?.photo_reference) {
-      photoUrl = getPhotoUrl(details.photos[0].photo_reference);
-    } else if (place.photos?.[0]?.photo_reference) {
-      photoUrl = getPhotoUrl(place.photos[0].photo_reference);
+    const curated = overlay[place.place_id];
+
+    // Clamp happy hour to the venue's opening hours
+    const schedule = deriveHappyHour(details?.opening_hours || place.opening_hours);
+    if (schedule.length === 0) {
+      skipped.push(place.name);
+      console.warn(`  ⚠️  ${place.name} is never open during happy hour - skipping`);
+      continue;
+    }
+
+    // Smallest boundary polygon containing the venue, else the nearest centroid
+    const { neighborhood, inside, distanceMiles } = assignNeighborhood(place.geometry.location);
+    if (!inside) {
+      outsideBoundaries.push({ name: place.name, neighborhood, distanceMiles });
     }
 
-    // Parse opening hours to guess happy hour days
-    const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+    // Downloaded into the photo cache; the URL is a local asset, not Google's
+    const photoReference = details?.photos?.[0]?.photo_reference || place.photos?.[0]?.photo_reference;
+    const photoUrl = await getVenuePhoto(place.place_id, photoReference, placesMode === 'replay' ? null : API_KEY!);
+
+    // Structured items for price filters and sorting; anything the parser
+    // can't read is reported below so the curated text can be fixed
+    const deal = curated ? parseDeal(curated.dealText) : { items: [], unparsed: [] };
+    if (deal.unparsed.length > 0) {
+      unparsedDeals.push({ name: place.name, fragments: deal.unparsed });
+    }
 
     const venue: Venue = {
       id: place.place_id,
@@ -252,13 +496,14 @@ async function fetchAllVenues(): Promise<Venue[]> {
       neighborhood,
       address: place.formatted_address || place.vicinity || '',
       cuisine,
-      dealText: generateDealText(priceLevel, cuisine),
-      drinks: getDrinks(cuisine),
-      food: getFood(cuisine),
+      dealText: curated?.dealText || UNVERIFIED_DEAL_TEXT,
+      dealSource: curated ? curated.source || 'curated' : 'unverified',
+      dealItems: deal.items,
+      // Only a verified deal says what's on it; guessing from the cuisine would invent specials
+      drinks: curated?.drinks || [],
+      food: curated?.food || [],
       priceLevel,
-      days,
-      startTime: '4:00 PM',
-      endTime: '7:00 PM',
+      schedule,
       rating: place.rating || 4.0,
       ratingsCount: place.user_ratings_total || 0,
       image: getEmoji(cuisine),
@@ -273,20 +518,98 @@ async function fetchAllVenues(): Promise<Venue[]> {
     console.log(`  ✓ ${venue.name} (${venue.neighborhood})`);
   }
 
-  return venues;
+  const unverifiedCount = venues.filter(v => v.dealSource === 'unverified').length;
+  console.log(`\n🏷️  ${venues.length - unverifiedCount} venue(s) with curated deals, ${unverifiedCount} unverified`);
+
+  const unusedDeals = Object.keys(overlay).filter(id => overlay[id] && !venues.some(v => v.placeId === id));
+  if (unusedDeals.length > 0) {
+    console.warn(`⚠️  ${unusedDeals.length} curated deal(s) did not match a fetched venue:`);
+    for (const id of unusedDeals) {
+      console.warn(`   - ${id}`);
+    }
+  }
+
+  if (skipped.length > 0) {
+    console.warn(`\n⚠️  ${skipped.length} venue(s) not open during happy hour on any day:`);
+    for (const name of skipped) {
+      console.warn(`   - ${name}`);
+    }
+  }
+
+  if (outsideBoundaries.length > 0) {
+    console.warn(`\n⚠️  ${outsideBoundaries.length} venue(s) outside every neighborhood boundary, placed by nearest centroid:`);
+    for (const { name, neighborhood, distanceMiles } of outsideBoundaries) {
+      console.warn(`   - ${name}: ${neighborhood} (${distanceMiles.toFixed(1)} mi from its centre)`);
+    }
+  }
+
+  if (unparsedDeals.length > 0) {
+    console.warn(`\n⚠️  ${unparsedDeals.length} curated deal(s) with fragments the deal parser couldn't read:`);
+    for (const { name, fragments } of unparsedDeals) {
+      console.warn(`   - ${name}: ${fragments.map(f => `"${f}"`).join(', ')}`);
+    }
+  }
+
+  return { venues, complete, curatedDeals };
+}
+
+// The new fetch on top of the last one. The overlay decides each venue's
+// deal whenever it loaded. If it couldn't be loaded, a fetched venue that had
+// a curated or user-submitted deal keeps it rather than going back to
+// unverified. When the budget cut the fetch short, venues it didn't reach are
+// kept as they were, except that a deal the overlay no longer has (its entry
+// deleted or set to null) is retracted.
+function mergeWithPrevious({ venues: fetched, complete, curatedDeals }: FetchResult, previous: Venue[]) {
+  const previousById = new Map(previous.map(venue => [venue.id, venue]));
+  const isDropped = (venue: Venue) => curatedDeals !== null && !curatedDeals[venue.id];
+  const keptCurated: Venue[] = [];
+
+  const refreshed = fetched.map(venue => {
+    const before = previousById.get(venue.id);
+    if (curatedDeals !== null || !before || (before.dealSource ?? 'unverified') === 'unverified') {
+      return venue;
+    }
+
+    const kept: Venue = {
+      ...venue,
+      dealText: before.dealText,
+      dealSource: before.dealSource,
+      dealItems: parseDeal(before.dealText).items,
+      drinks: before.drinks,
+      food: before.food,
+    };
+    keptCurated.push(kept);
+    return kept;
+  });
+
+  const fetchedIds = new Set(fetched.map(venue => venue.id));
+  const carriedOver = complete ? [] : previous
+    .filter(venue => !fetchedIds.has(venue.id))
+    .map(venue => isDropped(venue) && venue.dealSource !== 'unverified' ? retractDeal(venue) : venue);
+
+  return { venues: [...refreshed, ...carriedOver], carriedOver, keptCurated };
+}
+
+// Reuse the last fetch. Its photos are republished from the photo cache,
+// and any that aren't local assets are dropped so no Google URL ships.
+function useCachedVenues() {
+  const cached = JSON.parse(readFileSync(CACHE_PATH, 'utf-8')) as Venue[];
+  const venues = publishPhotos(cached);
+  const output = JSON.stringify(venues, null, 2);
+  writeFileSync(OUTPUT_PATH, output);
+  writeFileSync(CACHE_PATH, output);
 }
 
 async function main() {
-  // Check for API key
-  if (!API_KEY) {
+  // Check for API key; replays don't need one
+  if (!API_KEY && placesMode !== 'replay') {
     console.log('⚠️  GOOGLE_PLACES_API_KEY not set.');
     console.log('   Using cached/fallback data.\n');
 
     // Check for cached data
     if (existsSync(CACHE_PATH)) {
       console.log('📦 Using cached venue data from previous build.');
-      const cached = readFileSync(CACHE_PATH, 'utf-8');
-      writeFileSync(OUTPUT_PATH, cached);
+      useCachedVenues();
       return;
     }
 
@@ -296,14 +619,41 @@ async function main() {
   }
 
   try {
-    const venues = await fetchAllVenues();
+    if (placesMode !== 'live') console.log(`🎞️  Places API mode: ${placesMode}\n`);
+    if (placesMode === 'replay') mkdirSync(REPLAY_DIR, { recursive: true });
+    const previous = existsSync(CACHE_PATH) ? JSON.parse(readFileSync(CACHE_PATH, 'utf-8')) as Venue[] : [];
+    const fetched = await fetchAllVenues();
+    // Every search failed (e.g. over quota): keep the last good data
+    if (fetched.venues.length === 0) throw new Error('No venues fetched');
+
+    const { venues: merged, carriedOver, keptCurated } = mergeWithPrevious(fetched, previous);
+    const venues = publishPhotos(merged);
+
+    // Report what changed, and keep the last good data if too much vanished
+    const diff = diffVenues(previous, venues);
+    const removed = removedFraction(diff);
+    const refused = removed > MAX_REMOVED_FRACTION;
+    const status = refused
+      ? `not published, ${Math.round(removed * 100)}% of venues disappeared (limit ${Math.round(MAX_REMOVED_FRACTION * 100)}%)`
+      : 'published';
+    const report = formatDiffReport(diff, { carriedOver, keptCurated }, status);
+    writeFileSync(DIFF_PATH, report);
+    console.log(`\n📝 Changes since the last fetch (saved to ${relative(ROOT, DIFF_PATH)}):\n\n${report.trimEnd()}`);
+
+    // The last published data stays in place, and the build fails so CI notices
+    if (refused) {
+      console.error(`\n❌ Refusing to publish: ${diff.removed.length} of ${diff.previousCount} venues disappeared. ` +
+        `Check ${relative(ROOT, DIFF_PATH)}, then rerun with VENUES_MAX_REMOVED=1 if that is expected.`);
+      process.exitCode = 1;
+      return;
+    }
 
     // Save to generated file
     const output = JSON.stringify(venues, null, 2);
     writeFileSync(OUTPUT_PATH, output);
     writeFileSync(CACHE_PATH, output); // Cache for builds without API key
 
-    console.log(`\n✅ Saved ${venues.length} venues to venues-generated.json`);
+    console.log(`\n✅ Saved ${venues.length} venues to ${relative(ROOT, OUTPUT_PATH)}`);
     console.log('   This data will be used for client-side search.');
 
   } catch (error) {
@@ -312,9 +662,10 @@ async function main() {
     // Try to use cache on error
     if (existsSync(CACHE_PATH)) {
       console.log('📦 Using cached venue data due to error.');
-      const cached = readFileSync(CACHE_PATH, 'utf-8');
-      writeFileSync(OUTPUT_PATH, cached);
+      useCachedVenues();
     }
+  } finally {
+    console.log(`\n💸 Places API usage: ${formatUsage()}`);
   }
 }
 
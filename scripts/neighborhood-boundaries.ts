@@ -0,0 +1,113 @@
+/**
+ * Neighborhood assignment from coordinates. Boundaries come from
+ * src/data/neighborhoods.geojson, simplified polygons drawn around the areas
+ * we list venues in. Smaller areas sit inside larger ones (Sixth Street
+ * inside Downtown), so a point gets the smallest polygon that contains it.
+ *
+ * A point outside every polygon gets the neighborhood with the nearest
+ * centroid, flagged so the caller can warn about it.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { neighborhoodCentroids } from '../src/data/neighborhoods';
+import { distanceMiles } from '../src/lib/geo';
+import type { LatLng } from '../src/lib/cluster';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const BOUNDARIES_PATH = resolve(__dirname, '../src/data/neighborhoods.geojson');
+
+// [lng, lat], as GeoJSON orders them
+type Position = [number, number];
+
+interface BoundaryCollection {
+  type: 'FeatureCollection';
+  features: {
+    type: 'Feature';
+    properties: { name: string };
+    geometry: { type: 'Polygon'; coordinates: Position[][] };
+  }[];
+}
+
+interface Boundary {
+  name: string;
+  // Outer ring first, then any holes
+  rings: Position[][];
+  area: number;
+}
+
+export interface NeighborhoodAssignment {
+  neighborhood: string;
+  // False when the point is outside every polygon and the nearest centroid was used
+  inside: boolean;
+  // Distance to that centroid, for the warning
+  distanceMiles: number;
+}
+
+// Shoelace area in square degrees; only used to order polygons by size
+function ringArea(ring: Position[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return Math.abs(sum / 2);
+}
+
+// Even-odd ray casting
+function ringContains(ring: Position[], { lat, lng }: LatLng): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function polygonContains(rings: Position[][], point: LatLng): boolean {
+  const [outer, ...holes] = rings;
+  return ringContains(outer, point) && !holes.some(hole => ringContains(hole, point));
+}
+
+// Every boundary needs a centroid (for the fallback and the "near me" list)
+// and every centroid a boundary, or the two would drift apart
+function loadBoundaries(): Boundary[] {
+  const collection = JSON.parse(readFileSync(BOUNDARIES_PATH, 'utf-8')) as BoundaryCollection;
+  const boundaries = collection.features.map(({ properties, geometry }) => ({
+    name: properties.name,
+    rings: geometry.coordinates,
+    area: ringArea(geometry.coordinates[0]),
+  }));
+
+  const names = new Set(boundaries.map(b => b.name));
+  const noCentroid = [...names].filter(name => !neighborhoodCentroids[name]);
+  const noBoundary = Object.keys(neighborhoodCentroids).filter(name => !names.has(name));
+  if (noCentroid.length > 0 || noBoundary.length > 0) {
+    throw new Error(
+      `neighborhoods.geojson and neighborhoodCentroids disagree: ` +
+      `no centroid for [${noCentroid.join(', ')}], no boundary for [${noBoundary.join(', ')}]`
+    );
+  }
+
+  return boundaries.sort((a, b) => a.area - b.area);
+}
+
+let boundaries: Boundary[] | null = null;
+
+export function assignNeighborhood(point: LatLng): NeighborhoodAssignment {
+  boundaries ??= loadBoundaries();
+
+  const containing = boundaries.find(boundary => polygonContains(boundary.rings, point));
+  if (containing) {
+    return { neighborhood: containing.name, inside: true, distanceMiles: 0 };
+  }
+
+  const [nearest] = Object.entries(neighborhoodCentroids)
+    .map(([name, centroid]) => ({ name, distance: distanceMiles(point, centroid) }))
+    .sort((a, b) => a.distance - b.distance);
+  return { neighborhood: nearest.name, inside: false, distanceMiles: nearest.distance };
+}
@@ -0,0 +1,119 @@
+/**
+ * Build-time venue photos. Each photo is downloaded once through the Places
+ * Photo API, which resizes it to PHOTO_MAX_WIDTH and returns a compressed
+ * JPEG, and stored under a content-hashed name. The client only ever sees
+ * /photos/<hash>.jpg, never a Google URL or the API key.
+ *
+ * Downloads are kept in .photo-cache/ and reused by later builds until they
+ * are PHOTO_MAX_AGE_DAYS old, so most builds make no photo requests at all.
+ */
+
+import { createHash } from 'crypto';
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { spendCall } from './places-api';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const CACHE_DIR = resolve(__dirname, '../.photo-cache');
+const MANIFEST_PATH = resolve(CACHE_DIR, 'manifest.json');
+const PUBLIC_DIR = resolve(__dirname, '../public/photos');
+const PUBLIC_PATH = '/photos/';
+
+// Cards show photos at up to ~200 CSS px and the detail page at ~400
+const PHOTO_MAX_WIDTH = 480;
+const PHOTO_MAX_AGE_DAYS = 30;
+
+interface CachedPhoto {
+  file: string;
+  fetchedAt: string;
+}
+
+// Cached photo per placeId
+type PhotoManifest = Record<string, CachedPhoto>;
+
+let manifest: PhotoManifest | null = null;
+
+function loadManifest(): PhotoManifest {
+  if (!manifest) {
+    manifest = existsSync(MANIFEST_PATH) ? JSON.parse(readFileSync(MANIFEST_PATH, 'utf-8')) : {};
+  }
+  return manifest!;
+}
+
+function saveManifest() {
+  mkdirSync(CACHE_DIR, { recursive: true });
+  writeFileSync(MANIFEST_PATH, JSON.stringify(loadManifest(), null, 2));
+}
+
+function isFresh(photo: CachedPhoto): boolean {
+  const ageDays = (Date.now() - new Date(photo.fetchedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return ageDays < PHOTO_MAX_AGE_DAYS && existsSync(resolve(CACHE_DIR, photo.file));
+}
+
+function extensionFor(contentType: string | null): string {
+  if (contentType?.includes('png')) return 'png';
+  if (contentType?.includes('webp')) return 'webp';
+  return 'jpg';
+}
+
+// The cached photo's public URL, downloading it first if there's no fresh
+// copy. Returns the stale copy, or null, if the download fails, the API
+// budget is spent, or there's no key to download with (fixture replays).
+export async function getVenuePhoto(placeId: string, photoReference: string | undefined, apiKey: string | null): Promise<string | null> {
+  const cached = loadManifest()[placeId];
+  if (cached && isFresh(cached)) return PUBLIC_PATH + cached.file;
+  if (!photoReference || !apiKey) return cached ? PUBLIC_PATH + cached.file : null;
+
+  const url = new URL('https://maps.googleapis.com/maps/api/place/photo');
+  url.searchParams.set('maxwidth', String(PHOTO_MAX_WIDTH));
+  url.searchParams.set('photo_reference', photoReference);
+  url.searchParams.set('key', apiKey);
+
+  try {
+    spendCall('photo');
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = Buffer.from(await response.arrayBuffer());
+    const hash = createHash('sha256').update(data).digest('hex').slice(0, 16);
+    const file = `${hash}.${extensionFor(response.headers.get('content-type'))}`;
+
+    mkdirSync(CACHE_DIR, { recursive: true });
+    writeFileSync(resolve(CACHE_DIR, file), data);
+    loadManifest()[placeId] = { file, fetchedAt: new Date().toISOString() };
+    saveManifest();
+
+    return PUBLIC_PATH + file;
+  } catch (error) {
+    // Never echo the URL: it carries the key
+    console.warn(`  ⚠️  Photo download failed for ${placeId}: ${(error as Error).message}`);
+    return cached && existsSync(resolve(CACHE_DIR, cached.file)) ? PUBLIC_PATH + cached.file : null;
+  }
+}
+
+// Copy the photos these venues use from the cache into public/photos and
+// remove any others. A photoUrl that isn't a cached local photo (e.g. a
+// Google URL from a cache written before this pipeline) is dropped.
+export function publishPhotos<V extends { photoUrl: string | null }>(venues: V[]): V[] {
+  mkdirSync(PUBLIC_DIR, { recursive: true });
+
+  const published = venues.map(venue => {
+    const file = venue.photoUrl?.startsWith(PUBLIC_PATH) ? venue.photoUrl.slice(PUBLIC_PATH.length) : null;
+    if (!file || !existsSync(resolve(CACHE_DIR, file))) return { ...venue, photoUrl: null };
+
+    const target = resolve(PUBLIC_DIR, file);
+    if (!existsSync(target)) copyFileSync(resolve(CACHE_DIR, file), target);
+    return venue;
+  });
+
+  const used = new Set(published.flatMap(venue => venue.photoUrl ? [venue.photoUrl.slice(PUBLIC_PATH.length)] : []));
+  for (const file of readdirSync(PUBLIC_DIR)) {
+    if (!used.has(file)) rmSync(resolve(PUBLIC_DIR, file));
+  }
+
+  const dropped = venues.filter((venue, i) => venue.photoUrl && !published[i].photoUrl).length;
+  console.log(`🖼️  Published ${used.size} venue photo(s) to public/photos${dropped > 0 ? `, dropped ${dropped} unavailable` : ''}`);
+  return published;
+}
@@ -0,0 +1,242 @@
+/**
+ * Places API requests for fetch-venues, with a record/replay layer so the
+ * fetch can run without a key or network.
+ *
+ *   PLACES_MODE=live     Call the API (default)
+ *   PLACES_MODE=record   Call the API and save each response as a fixture
+ *   PLACES_MODE=replay   Answer from fixtures only; a missing one is an error
+ *
+ * Fixtures live in scripts/fixtures/places (or PLACES_FIXTURES), one readable
+ * JSON file per request, with the key stripped. In replay, PLACES_FAULT makes
+ * responses fail the way the real API does, to exercise the error paths:
+ *
+ *   PLACES_FAULT=over-query-limit | zero-results | malformed
+ *   PLACES_FAULT=over-query-limit:textsearch   (only text searches)
+ *   PLACES_FAULT=malformed:details             (only place details)
+ *
+ * Every call, replayed or not, counts against a budget, and transient
+ * failures are retried with exponential backoff:
+ *
+ *   PLACES_MAX_CALLS=250     Most calls one run may make, retries included
+ *   PLACES_MAX_COST=3        Most dollars one run may spend, at CALL_PRICES
+ *   PLACES_MAX_RETRIES=4     Retries per request before giving up
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export type PlacesEndpoint = 'textsearch' | 'details';
+export type PlacesMode = 'live' | 'record' | 'replay';
+
+// Everything that's billed, photos included
+export type PlacesCall = PlacesEndpoint | 'photo';
+
+type Fault = 'over-query-limit' | 'zero-results' | 'malformed';
+
+interface Fixture {
+  request: { endpoint: PlacesEndpoint; params: Record<string, string> };
+  body: unknown;
+}
+
+// Dollars per call, from Google's price list
+const CALL_PRICES: Record<PlacesCall, number> = {
+  textsearch: 0.032,
+  details: 0.017,
+  photo: 0.007,
+};
+
+// Statuses worth asking again for: rate limiting and server hiccups
+const TRANSIENT_STATUSES = ['OVER_QUERY_LIMIT', 'UNKNOWN_ERROR'];
+const RETRY_BASE_DELAY_MS = 500;
+
+// Live calls are spaced at least this far apart
+const MIN_CALL_INTERVAL_MS = 100;
+
+const MODES: PlacesMode[] = ['live', 'record', 'replay'];
+const FAULTS: Fault[] = ['over-query-limit', 'zero-results', 'malformed'];
+
+const FIXTURE_DIR = resolve(process.env.PLACES_FIXTURES || resolve(__dirname, 'fixtures/places'));
+
+// The param that tells requests to an endpoint apart
+const FIXTURE_PARAM: Record<PlacesEndpoint, string> = {
+  textsearch: 'query',
+  details: 'place_id',
+};
+
+function readMode(): PlacesMode {
+  const mode = process.env.PLACES_MODE || 'live';
+  if (!MODES.includes(mode as PlacesMode)) {
+    throw new Error(`PLACES_MODE must be one of ${MODES.join(', ')}, got "${mode}"`);
+  }
+  return mode as PlacesMode;
+}
+
+function readFault(): { fault: Fault; endpoint: PlacesEndpoint | null } | null {
+  const value = process.env.PLACES_FAULT;
+  if (!value) return null;
+
+  const [fault, endpoint] = value.split(':');
+  if (!FAULTS.includes(fault as Fault) || (endpoint && !(endpoint in FIXTURE_PARAM))) {
+    throw new Error(`PLACES_FAULT must be ${FAULTS.join(' | ')}, optionally followed by :textsearch or :details`);
+  }
+  return { fault: fault as Fault, endpoint: (endpoint as PlacesEndpoint) || null };
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`${name} must be a non-negative number, got "${value}"`);
+  return n;
+}
+
+export const placesMode = readMode();
+const placesFault = readFault();
+
+const budget = {
+  maxCalls: readLimit('PLACES_MAX_CALLS', 250),
+  maxCost: readLimit('PLACES_MAX_COST', 3),
+};
+const maxRetries = readLimit('PLACES_MAX_RETRIES', 4);
+
+const spent: Record<PlacesCall, number> = { textsearch: 0, details: 0, photo: 0 };
+let lastCallAt = 0;
+
+if (placesFault && placesMode !== 'replay') {
+  throw new Error('PLACES_FAULT only applies with PLACES_MODE=replay');
+}
+
+// Further pages of a search are told apart by a hash of their page token
+function fixturePath(endpoint: PlacesEndpoint, params: Record<string, string>): string {
+  const slug = params[FIXTURE_PARAM[endpoint]].toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const page = params.pagetoken ? `-page-${createHash('sha256').update(params.pagetoken).digest('hex').slice(0, 8)}` : '';
+  return resolve(FIXTURE_DIR, `${endpoint}-${slug}${page}.json`);
+}
+
+// The body a failing API would send instead; malformed is what a truncated
+// or non-JSON response looks like to the caller
+function simulateFault(fault: Fault): unknown {
+  if (fault === 'over-query-limit') {
+    return { status: 'OVER_QUERY_LIMIT', error_message: 'You have exceeded your daily request quota for this API.', results: [] };
+  }
+  if (fault === 'zero-results') return { status: 'ZERO_RESULTS', results: [] };
+  throw new SyntaxError('Unexpected end of JSON input (simulated malformed payload)');
+}
+
+function replay(endpoint: PlacesEndpoint, params: Record<string, string>): unknown {
+  if (placesFault && (!placesFault.endpoint || placesFault.endpoint === endpoint)) {
+    return simulateFault(placesFault.fault);
+  }
+
+  const path = fixturePath(endpoint, params);
+  if (!existsSync(path)) {
+    throw new Error(`No fixture for ${endpoint} "${params[FIXTURE_PARAM[endpoint]]}" (expected ${path}); record one with PLACES_MODE=record`);
+  }
+  return (JSON.parse(readFileSync(path, 'utf-8')) as Fixture).body;
+}
+
+function record(endpoint: PlacesEndpoint, params: Record<string, string>, body: unknown, apiKey: string) {
+  const fixture: Fixture = { request: { endpoint, params }, body };
+  const output = JSON.stringify(fixture, null, 2);
+  // Params never include the key, but make sure nothing echoed it back
+  if (output.includes(apiKey)) {
+    throw new Error(`Refusing to record a ${endpoint} fixture that contains the API key`);
+  }
+
+  mkdirSync(FIXTURE_DIR, { recursive: true });
+  writeFileSync(fixturePath(endpoint, params), output + '\n');
+}
+
+// Thrown instead of making a call that would go over the budget
+export class BudgetExceededError extends Error {
+  constructor(call: PlacesCall) {
+    super(`API budget reached before a ${call} call (${formatUsage()})`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// A failure worth retrying: a 429 or 5xx response
+class TransientError extends Error {}
+
+function totalCalls(): number {
+  return Object.values(spent).reduce((sum, n) => sum + n, 0);
+}
+
+function totalCost(): number {
+  return (Object.keys(spent) as PlacesCall[]).reduce((sum, call) => sum + spent[call] * CALL_PRICES[call], 0);
+}
+
+// "12 textsearch, 50 details, 40 photo: 102 of 250 calls, $1.52 of $3.00"
+export function formatUsage(): string {
+  const byCall = (Object.keys(spent) as PlacesCall[]).map(call => `${spent[call]} ${call}`).join(', ');
+  return `${byCall}: ${totalCalls()} of ${budget.maxCalls} calls, $${totalCost().toFixed(2)} of $${budget.maxCost.toFixed(2)}`;
+}
+
+// Count a call against the budget, or throw if it would go over
+export function spendCall(call: PlacesCall) {
+  if (totalCalls() + 1 > budget.maxCalls || totalCost() + CALL_PRICES[call] > budget.maxCost + 1e-9) {
+    throw new BudgetExceededError(call);
+  }
+  spent[call]++;
+}
+
+// Rate limiting between live requests; replays run straight through
+export function pause(ms: number): Promise<void> {
+  return placesMode === 'replay' ? Promise.resolve() : new Promise(r => setTimeout(r, ms));
+}
+
+async function callOnce(endpoint: PlacesEndpoint, params: Record<string, string>, apiKey: string | undefined): Promise<unknown> {
+  spendCall(endpoint);
+  if (placesMode === 'replay') return replay(endpoint, params);
+
+  await pause(lastCallAt + MIN_CALL_INTERVAL_MS - Date.now());
+  lastCallAt = Date.now();
+
+  const url = new URL(`https://maps.googleapis.com/maps/api/place/${endpoint}/json`);
+  for (const [name, value] of Object.entries(params)) url.searchParams.set(name, value);
+  url.searchParams.set('key', apiKey!);
+
+  const response = await fetch(url.toString());
+  if (response.status === 429 || response.status >= 500) throw new TransientError(`HTTP ${response.status}`);
+  const body = await response.json();
+
+  if (placesMode === 'record') record(endpoint, params, body, apiKey!);
+  return body;
+}
+
+// Parsed JSON body of a Places API request. The key is added here and
+// never stored. Transient statuses (plus any in retryStatuses), 429/5xx
+// responses and network errors are retried with exponential backoff; after
+// the last retry the body is returned as is, or the error thrown. Throws
+// BudgetExceededError once the budget is spent, and if the body isn't JSON.
+export async function placesRequest(
+  endpoint: PlacesEndpoint,
+  params: Record<string, string>,
+  apiKey: string | undefined,
+  retryStatuses: string[] = [],
+): Promise<unknown> {
+  for (let attempt = 0; ; attempt++) {
+    let reason: string;
+
+    try {
+      const body = await callOnce(endpoint, params, apiKey);
+      const status = (body as { status?: string } | null)?.status ?? '';
+      if (![...TRANSIENT_STATUSES, ...retryStatuses].includes(status) || attempt >= maxRetries) return body;
+      reason = status;
+    } catch (error) {
+      // fetch rejects with a TypeError when the network fails
+      const isTransient = error instanceof TransientError || error instanceof TypeError;
+      if (!isTransient || attempt >= maxRetries) throw error;
+      reason = (error as Error).message;
+    }
+
+    const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() / 4);
+    console.warn(`    ↻ ${endpoint} ${reason}, retry ${attempt + 1}/${maxRetries} in ${(delay / 1000).toFixed(1)}s`);
+    await pause(delay);
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * What changed between two venue lists: venues added and removed, and for
+ * venues in both, the fields people notice (rating, price, hours, deal,
+ * photo, neighborhood). fetch-venues writes it as a Markdown report on every
+ * run and refuses to publish if too many venues disappear at once.
+ */
+
+interface HappyHourWindow {
+  days: string[];
+  startTime: string;
+  endTime: string;
+}
+
+// The fields compared; fetch-venues' Venue has these and more
+export interface DiffableVenue {
+  id: string;
+  name: string;
+  neighborhood: string;
+  dealText: string;
+  dealSource: string;
+  priceLevel: number;
+  schedule: HappyHourWindow[];
+  rating: number;
+  photoUrl: string | null;
+}
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface VenueChange {
+  venue: DiffableVenue;
+  changes: FieldChange[];
+}
+
+export interface VenueDiff {
+  previousCount: number;
+  added: DiffableVenue[];
+  removed: DiffableVenue[];
+  changed: VenueChange[];
+}
+
+// Venues fetch-venues filled in from the previous list, listed in the report
+export interface DiffNotes {
+  carriedOver: DiffableVenue[];
+  keptCurated: DiffableVenue[];
+}
+
+const DAY_ABBREVIATIONS: Record<string, string> = {
+  Monday: 'Mon', Tuesday: 'Tue', Wednesday: 'Wed', Thursday: 'Thu',
+  Friday: 'Fri', Saturday: 'Sat', Sunday: 'Sun',
+};
+
+// "Mon, Tue 3:00 PM-6:00 PM; Fri 11:00 PM-2:00 AM"
+function formatSchedule(schedule: HappyHourWindow[] | undefined): string {
+  if (!schedule?.length) return 'none';
+  return schedule
+    .map(w => `${w.days.map(d => DAY_ABBREVIATIONS[d] ?? d).join(', ')} ${w.startTime}-${w.endTime}`)
+    .join('; ');
+}
+
+function formatDeal(venue: DiffableVenue): string {
+  return `"${venue.dealText}" (${venue.dealSource})`;
+}
+
+const FIELDS: { field: string; format: (venue: DiffableVenue) => string }[] = [
+  { field: 'rating', format: v => v.rating.toFixed(1) },
+  { field: 'price', format: v => '$'.repeat(v.priceLevel) },
+  { field: 'hours', format: v => formatSchedule(v.schedule) },
+  { field: 'deal', format: formatDeal },
+  { field: 'neighborhood', format: v => v.neighborhood },
+];
+
+function compareVenues(before: DiffableVenue, after: DiffableVenue): FieldChange[] {
+  const changes = FIELDS
+    .map(({ field, format }) => ({ field, before: format(before), after: format(after) }))
+    .filter(change => change.before !== change.after);
+
+  // Photo URLs are content hashes, so say whether there is one and whether it's new
+  if (before.photoUrl !== after.photoUrl) {
+    changes.push({
+      field: 'photo',
+      before: before.photoUrl ? 'photo' : 'none',
+      after: after.photoUrl ? (before.photoUrl ? 'new photo' : 'photo') : 'none',
+    });
+  }
+  return changes;
+}
+
+export function diffVenues(previous: DiffableVenue[], next: DiffableVenue[]): VenueDiff {
+  const previousById = new Map(previous.map(venue => [venue.id, venue]));
+  const nextIds = new Set(next.map(venue => venue.id));
+
+  const changed = next.flatMap(venue => {
+    const before = previousById.get(venue.id);
+    const changes = before ? compareVenues(before, venue) : [];
+    return changes.length > 0 ? [{ venue, changes }] : [];
+  });
+
+  return {
+    previousCount: previous.length,
+    added: next.filter(venue => !previousById.has(venue.id)),
+    removed: previous.filter(venue => !nextIds.has(venue.id)),
+    changed,
+  };
+}
+
+// Share of the previous venues that are gone, 0 when there were none
+export function removedFraction(diff: VenueDiff): number {
+  return diff.previousCount > 0 ? diff.removed.length / diff.previousCount : 0;
+}
+
+function listVenues(title: string, venues: DiffableVenue[]): string[] {
+  if (venues.length === 0) return [];
+  return ['', `## ${title} (${venues.length})`, '', ...venues.map(v => `- ${v.name} (${v.neighborhood})`)];
+}
+
+export function formatDiffReport(diff: VenueDiff, notes: DiffNotes, status: string): string {
+  const nextCount = diff.previousCount + diff.added.length - diff.removed.length;
+  const lines = [
+    '# Venue changes',
+    '',
+    `${new Date().toISOString()}: ${status}`,
+    '',
+    `${nextCount} venue(s), was ${diff.previousCount}: ` +
+      `${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`,
+    ...listVenues('Added', diff.added),
+    ...listVenues('Removed', diff.removed),
+  ];
+
+  if (diff.changed.length > 0) {
+    lines.push('', `## Changed (${diff.changed.length})`, '');
+    for (const { venue, changes } of diff.changed) {
+      lines.push(`- ${venue.name}`);
+      for (const { field, before, after } of changes) {
+        lines.push(`  - ${field}: ${before} → ${after}`);
+      }
+    }
+  }
+
+  lines.push(
+    ...listVenues('Carried over from the last fetch', notes.carriedOver),
+    ...listVenues('Curated deal kept from the last fetch', notes.keptCurated),
+  );
+  return lines.join('\n') + '\n';
+}
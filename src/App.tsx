@@ -1,33 +1,61 @@
-import { useState, useTransition } from 'react';
+import { lazy, Suspense, useMemo, useState, useTransition } from 'react';
 import { SearchInput } from './components/SearchInput';
 import { CategoryTabs } from './components/CategoryTabs';
 import { TimeFilter } from './components/TimeFilter';
 import { DealTypeFilter } from './components/DealTypeFilter';
+import { LocationFilter } from './components/LocationFilter';
+import { DealPriceFilter } from './components/DealPriceFilter';
 import { VenueCard, VenueCardSkeleton } from './components/VenueCard';
 import { FeedbackDialog, FeedbackButton } from './components/FeedbackDialog';
-import { useSearch, useDebounce, isHappeningNow, type Filters } from './hooks/useSearch';
+import { VenueDetail } from './components/VenueDetail';
+import { FavoritesSummary } from './components/FavoritesSummary';
+import { ChipCount } from './components/ChipCount';
+import { QueryChips } from './components/QueryChips';
+import { useSearch, useDebounce, resolveMoment, isHappeningAt, getDistance, defaultFilters, type Filters } from './hooks/useSearch';
+import { toggleValue } from './lib/filters';
+import { applyQueryFilters, parseQuery, removeQueryToken } from './lib/queryParser';
+import type { Suggestion } from './lib/suggestions';
+import { useUrlState, readUrlState, buildShareUrl } from './hooks/useUrlState';
+import { navigate, useRoute, venuePath } from './hooks/useRoute';
+import { formatMinutes } from './lib/schedule';
+import { systemClock, type Clock } from './lib/clock';
 import { neighborhoods } from './data/venues';
 import './styles.css';
 
-const initialFilters: Filters = {
-  neighborhood: null,
-  cuisine: null,
-  day: null,
-  maxPrice: null,
-  timeFilter: 'all',
-  dealType: 'all',
-};
-
-export default function App() {
-  const [query, setQuery] = useState('');
-  const [filters, setFilters] = useState<Filters>(initialFilters);
+// Leaflet is only downloaded when the map is first opened
+const MapView = lazy(() => import('./components/MapView').then(m => ({ default: m.MapView })));
+
+
+interface AppProps {
+  // Where "now" comes from for search, labels and the current day; fix it for tests and previews
+  clock?: Clock;
+}
+
+export default function App({ clock = systemClock }: AppProps) {
+  const [query, setQuery] = useState(() => readUrlState(defaultFilters).query);
+  const [filters, setFilters] = useState<Filters>(() => readUrlState(defaultFilters).filters);
+  const [linkCopied, setLinkCopied] = useState(false);
   const [isPending, startTransition] = useTransition();
   const [feedbackOpen, setFeedbackOpen] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [isPickingLocation, setIsPickingLocation] = useState(false);
+  const route = useRoute();
 
   // Debounce search query for 100ms
   const debouncedQuery = useDebounce(query, 100);
 
-  const { results, searchTimeMs, totalResults, isLoading } = useSearch(debouncedQuery, filters);
+  // Words like "now", "friday" or "soco" become filters; the rest is searched
+  const parsedQuery = useMemo(() => parseQuery(debouncedQuery), [debouncedQuery]);
+  const searchFilters = useMemo(() => applyQueryFilters(filters, parsedQuery.tokens), [filters, parsedQuery]);
+
+  const { results, searchTimeMs, totalResults, isLoading, facets, matchedWords, suggest } = useSearch(parsedQuery.text, searchFilters, clock);
+  const highlightWords = useMemo(() => new Set(matchedWords), [matchedWords]);
+
+  // Mirror query and filters into the URL; back/forward restores them
+  useUrlState({ query, filters }, defaultFilters, (state) => {
+    setQuery(state.query);
+    setFilters(state.filters);
+  });
 
   const handleFilterChange = <K extends keyof Filters>(key: K, value: Filters[K]) => {
     startTransition(() => {
@@ -35,18 +63,49 @@ export default function App() {
     });
   };
 
+  // Venues open their page, neighborhoods and cuisines become filters, and
+  // deal terms are searched for
+  const handleSuggestion = ({ kind, value }: Suggestion) => {
+    if (kind === 'venue') {
+      navigate(venuePath(value));
+    } else if (kind === 'neighborhood' || kind === 'cuisine') {
+      const key = kind === 'neighborhood' ? 'neighborhoods' : 'cuisines';
+      setQuery('');
+      if (!filters[key].includes(value)) handleFilterChange(key, [...filters[key], value]);
+    } else {
+      setQuery(value);
+    }
+  };
+
+  const startPickingLocation = () => {
+    setViewMode('map');
+    setIsPickingLocation(true);
+  };
+
   const clearAllFilters = () => {
     startTransition(() => {
-      setFilters(initialFilters);
+      setFilters(defaultFilters);
       setQuery('');
     });
   };
 
-  const hasActiveFilters = filters.neighborhood || filters.cuisine || filters.day ||
-    filters.maxPrice || filters.timeFilter !== 'all' || filters.dealType !== 'all' || query;
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl({ query, filters }, defaultFilters));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Copy link failed:', err);
+    }
+  };
+
+  const hasActiveFilters = filters.neighborhoods.length > 0 || filters.cuisines.length > 0 || filters.days.length > 0 ||
+    filters.maxPrice || filters.timeFilter !== 'all' || filters.plannedAt || filters.dealType !== 'all' ||
+    filters.verifiedOnly || filters.origin || filters.favoritesOnly || filters.dealPrice || query;
 
-  // Count venues happening now
-  const happeningNowCount = results.filter(isHappeningNow).length;
+  // Count venues live at the chosen moment (or right now)
+  const moment = resolveMoment(filters.plannedAt, clock);
+  const happeningNowCount = results.filter(venue => isHappeningAt(venue, moment)).length;
 
   return (
     <div className="app">
@@ -56,117 +115,218 @@ export default function App() {
       </header>
 
       <main className="main">
-        <SearchInput
-          value={query}
-          onChange={setQuery}
-          resultCount={totalResults}
-          searchTimeMs={searchTimeMs}
-        />
-
-        {/* Category Tabs - Cuisine Filter */}
-        <section className="filter-section-wrapper">
-          <CategoryTabs
-            selected={filters.cuisine}
-            onChange={(cuisine) => handleFilterChange('cuisine', cuisine)}
-          />
-        </section>
-
-        {/* Time Filter - Now / Soon / Today / Specific Day */}
-        <TimeFilter
-          timeFilter={filters.timeFilter}
-          selectedDay={filters.day}
-          onTimeFilterChange={(tf) => handleFilterChange('timeFilter', tf)}
-          onDayChange={(day) => handleFilterChange('day', day)}
-        />
-
-        {/* Deal Type - Drinks vs Food */}
-        <DealTypeFilter
-          dealType={filters.dealType}
-          onChange={(dt) => handleFilterChange('dealType', dt)}
-        />
-
-        {/* Additional Filters */}
-        <div className="compact-filters">
-          <div className="compact-filter-group">
-            <label className="filter-label">Neighborhood</label>
-            <div className="filter-chips">
-              {neighborhoods.slice(0, 6).map(n => (
-                <button
-                  key={n}
-                  className={`chip ${filters.neighborhood === n ? 'active' : ''}`}
-                  onClick={() => handleFilterChange('neighborhood', filters.neighborhood === n ? null : n)}
-                >
-                  {n}
-                </button>
-              ))}
-            </div>
-          </div>
-
-          <div className="compact-filter-group">
-            <label className="filter-label">Max Price</label>
-            <div className="filter-chips">
-              {[1, 2, 3, 4].map(p => (
-                <button
-                  key={p}
-                  className={`chip ${filters.maxPrice === p ? 'active' : ''}`}
-                  onClick={() => handleFilterChange('maxPrice', filters.maxPrice === p ? null : p)}
-                >
-                  {'$'.repeat(p)}
-                </button>
-              ))}
-            </div>
-          </div>
-
-          {hasActiveFilters && (
-            <button className="clear-filters" onClick={clearAllFilters}>
-              Clear all filters
-            </button>
-          )}
-        </div>
-
-        {/* Results Header */}
-        <div className="results-header">
-          <div className="results-info">
-            <span className="results-count">
-              Showing {totalResults} happy hour{totalResults !== 1 ? 's' : ''}
-            </span>
-            {happeningNowCount > 0 && filters.timeFilter !== 'now' && (
-              <span className="happening-now-badge">
-                <span className="pulse-dot"></span>
-                {happeningNowCount} happening now
-              </span>
-            )}
-          </div>
-          {isPending && <span className="updating">Updating...</span>}
-        </div>
-
-        {/* Results List */}
-        <div className="results-list">
-          {isLoading ? (
-            Array.from({ length: 5 }).map((_, i) => (
-              <VenueCardSkeleton key={i} />
-            ))
-          ) : results.length === 0 ? (
-            <div className="no-results">
-              <p>No happy hours found matching your criteria.</p>
-              <p>Try adjusting your search or filters.</p>
+        {route.name === 'venue' ? (
+          <VenueDetail key={route.id} venueId={route.id} moment={moment} isPlanned={filters.plannedAt !== null} />
+        ) : (
+          <>
+            <SearchInput
+              value={query}
+              onChange={setQuery}
+              suggest={suggest}
+              onSelectSuggestion={handleSuggestion}
+              resultCount={totalResults}
+              searchTimeMs={searchTimeMs}
+            />
+
+            <QueryChips parsed={parsedQuery} onRemove={(token) => setQuery(removeQueryToken(query, token))} />
+
+            <FavoritesSummary moment={moment} isPlanned={filters.plannedAt !== null} />
+
+            {/* Category Tabs - Cuisine Filter */}
+            <section className="filter-section-wrapper">
+              <CategoryTabs
+                selected={filters.cuisines}
+                counts={facets?.cuisines}
+                onChange={(cuisines) => handleFilterChange('cuisines', cuisines)}
+              />
+            </section>
+
+            {/* Time Filter - Planned Moment / Live / Soon / Specific Day */}
+            <TimeFilter
+              timeFilter={filters.timeFilter}
+              plannedAt={filters.plannedAt}
+              soonWithinMinutes={filters.soonWithinMinutes}
+              selectedDays={filters.days}
+              dayCounts={facets?.days}
+              clock={clock}
+              onTimeFilterChange={(tf) => handleFilterChange('timeFilter', tf)}
+              onPlannedAtChange={(at) => handleFilterChange('plannedAt', at)}
+              onSoonWithinChange={(minutes) => handleFilterChange('soonWithinMinutes', minutes)}
+              onDaysChange={(days) => handleFilterChange('days', days)}
+            />
+
+            {/* Deal Type - Drinks vs Food */}
+            <DealTypeFilter
+              dealType={filters.dealType}
+              verifiedOnly={filters.verifiedOnly}
+              counts={facets?.dealType}
+              verifiedCount={facets?.verifiedOnly.true}
+              onChange={(dt) => handleFilterChange('dealType', dt)}
+              onVerifiedOnlyChange={(v) => handleFilterChange('verifiedOnly', v)}
+            />
+
+            {/* Additional Filters */}
+            <div className="compact-filters">
+              <div className="compact-filter-group">
+                <label className="filter-label">Neighborhood</label>
+                <div className="filter-chips">
+                  {neighborhoods.map(n => (
+                    <button
+                      key={n}
+                      className={`chip ${filters.neighborhoods.includes(n) ? 'active' : ''} ${facets?.neighborhoods[n] === 0 ? 'empty' : ''}`}
+                      onClick={() => handleFilterChange('neighborhoods', toggleValue(filters.neighborhoods, n))}
+                      aria-pressed={filters.neighborhoods.includes(n)}
+                    >
+                      {n}
+                      <ChipCount count={facets?.neighborhoods[n]} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="compact-filter-group">
+                <label className="filter-label">Max Price</label>
+                <div className="filter-chips">
+                  {[1, 2, 3, 4].map(p => (
+                    <button
+                      key={p}
+                      className={`chip ${filters.maxPrice === p ? 'active' : ''} ${facets?.maxPrice[p] === 0 ? 'empty' : ''}`}
+                      onClick={() => handleFilterChange('maxPrice', filters.maxPrice === p ? null : p)}
+                    >
+                      {'$'.repeat(p)}
+                      <ChipCount count={facets?.maxPrice[p]} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="compact-filter-group">
+                <DealPriceFilter
+                  dealPrice={filters.dealPrice}
+                  sortBy={filters.sortBy}
+                  onDealPriceChange={(dealPrice) => handleFilterChange('dealPrice', dealPrice)}
+                  onSortByChange={(sortBy) => handleFilterChange('sortBy', sortBy)}
+                />
+              </div>
+
+              <div className="compact-filter-group">
+                <label className="filter-label">My Spots</label>
+                <div className="filter-chips">
+                  <button
+                    className={`chip ${filters.favoritesOnly ? 'active' : ''}`}
+                    onClick={() => handleFilterChange('favoritesOnly', !filters.favoritesOnly)}
+                  >
+                    ★ Favorites Only
+                  </button>
+                </div>
+              </div>
+
+              <div className="compact-filter-group">
+                <LocationFilter
+                  origin={filters.origin}
+                  maxDistance={filters.maxDistance}
+                  sortBy={filters.sortBy}
+                  onOriginChange={(origin) => handleFilterChange('origin', origin)}
+                  onMaxDistanceChange={(miles) => handleFilterChange('maxDistance', miles)}
+                  onSortByChange={(sortBy) => handleFilterChange('sortBy', sortBy)}
+                  onPickOnMap={startPickingLocation}
+                />
+              </div>
+
               {hasActiveFilters && (
-                <button className="btn-clear-filters" onClick={clearAllFilters}>
-                  Clear all filters
-                </button>
+                <div className="filter-actions">
+                  <button className="copy-link" onClick={copyLink}>
+                    {linkCopied ? '✓ Link copied' : '🔗 Copy link'}
+                  </button>
+                  <button className="clear-filters" onClick={clearAllFilters}>
+                    Clear all filters
+                  </button>
+                </div>
               )}
             </div>
-          ) : (
-            results.map(venue => (
-              <VenueCard
-                key={venue.id}
-                venue={venue}
-                searchQuery={debouncedQuery}
-                isHappeningNow={isHappeningNow(venue)}
-              />
-            ))
-          )}
-        </div>
+
+            {/* Results Header */}
+            <div className="results-header">
+              <div className="results-info">
+                <span className="results-count">
+                  Showing {totalResults} happy hour{totalResults !== 1 ? 's' : ''}
+                </span>
+                {happeningNowCount > 0 && searchFilters.timeFilter !== 'live' && (
+                  <span className="happening-now-badge">
+                    <span className="pulse-dot"></span>
+                    {filters.plannedAt
+                      ? `${happeningNowCount} live ${filters.plannedAt.day.slice(0, 3)} ${formatMinutes(filters.plannedAt.minutes)}`
+                      : `${happeningNowCount} happening now`}
+                  </span>
+                )}
+              </div>
+              <div className="results-actions">
+                {isPending && <span className="updating">Updating...</span>}
+                <div className="view-toggle" role="group" aria-label="Result view">
+                  <button
+                    className={`chip ${viewMode === 'list' ? 'active' : ''}`}
+                    onClick={() => setViewMode('list')}
+                    aria-pressed={viewMode === 'list'}
+                  >
+                    ☰ List
+                  </button>
+                  <button
+                    className={`chip ${viewMode === 'map' ? 'active' : ''}`}
+                    onClick={() => setViewMode('map')}
+                    aria-pressed={viewMode === 'map'}
+                  >
+                    🗺️ Map
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Results Map or List */}
+            {viewMode === 'map' && !isLoading ? (
+              <Suspense fallback={<div className="map-loading">Loading map...</div>}>
+                <MapView
+                  venues={results}
+                  moment={moment}
+                  soonWithinMinutes={filters.soonWithinMinutes}
+                  origin={filters.origin}
+                  isPicking={isPickingLocation}
+                  onPick={(point) => {
+                    setIsPickingLocation(false);
+                    handleFilterChange('origin', { ...point, label: 'Picked point', source: 'picked' });
+                  }}
+                />
+              </Suspense>
+            ) : (
+              <div className="results-list">
+                {isLoading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <VenueCardSkeleton key={i} />
+                  ))
+                ) : results.length === 0 ? (
+                  <div className="no-results">
+                    <p>No happy hours found matching your criteria.</p>
+                    <p>Try adjusting your search or filters.</p>
+                    {hasActiveFilters && (
+                      <button className="btn-clear-filters" onClick={clearAllFilters}>
+                        Clear all filters
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  results.map(venue => (
+                    <VenueCard
+                      key={venue.id}
+                      venue={venue}
+                      highlightWords={highlightWords}
+                      isHappeningNow={isHappeningAt(venue, moment)}
+                      distanceMiles={getDistance(venue, filters.origin)}
+                    />
+                  ))
+                )}
+              </div>
+            )}
+          </>
+        )}
       </main>
 
       <footer className="footer">
@@ -1,26 +1,33 @@
 import { cuisines } from '../data/venues';
+import { toggleValue } from '../lib/filters';
+import { ChipCount } from './ChipCount';
 
 interface CategoryTabsProps {
-  selected: string | null;
-  onChange: (cuisine: string | null) => void;
+  selected: string[];
+  counts?: Record<string, number>;
+  onChange: (cuisines: string[]) => void;
 }
 
-export function CategoryTabs({ selected, onChange }: CategoryTabsProps) {
+// "All" clears the selection; each cuisine toggles in or out of it
+export function CategoryTabs({ selected, counts, onChange }: CategoryTabsProps) {
   return (
     <div className="category-tabs">
       <button
-        className={`category-tab ${selected === null ? 'active' : ''}`}
-        onClick={() => onChange(null)}
+        className={`category-tab ${selected.length === 0 ? 'active' : ''} ${counts?.all === 0 ? 'empty' : ''}`}
+        onClick={() => onChange([])}
       >
         All
+        <ChipCount count={counts?.all} />
       </button>
       {cuisines.map(cuisine => (
         <button
           key={cuisine}
-          className={`category-tab ${selected === cuisine ? 'active' : ''}`}
-          onClick={() => onChange(cuisine)}
+          className={`category-tab ${selected.includes(cuisine) ? 'active' : ''} ${counts?.[cuisine] === 0 ? 'empty' : ''}`}
+          onClick={() => onChange(toggleValue(selected, cuisine))}
+          aria-pressed={selected.includes(cuisine)}
         >
           {cuisine}
+          <ChipCount count={counts?.[cuisine]} />
         </button>
       ))}
     </div>
@@ -0,0 +1,5 @@
+// How many results a filter chip would give; nothing until counts arrive
+export function ChipCount({ count }: { count: number | undefined }) {
+  if (count === undefined) return null;
+  return <span className="chip-count">{count}</span>;
+}
@@ -0,0 +1,69 @@
+import type { Filters } from '../hooks/useSearch';
+
+interface DealPriceFilterProps {
+  dealPrice: Filters['dealPrice'];
+  sortBy: Filters['sortBy'];
+  onDealPriceChange: (dealPrice: Filters['dealPrice']) => void;
+  onSortByChange: (sortBy: Filters['sortBy']) => void;
+}
+
+const ITEMS = [
+  { item: 'beer', label: '🍺 Beer' },
+  { item: 'wine', label: '🍷 Wine' },
+  { item: 'cocktail', label: '🍸 Cocktails' },
+  { item: 'spirit', label: '🥃 Spirits' },
+  { item: 'food', label: '🍴 Food' },
+];
+
+const MAX_PRICES = [3, 4, 5, 6, 8];
+const DEFAULT_MAX_PRICE = 5;
+
+export function DealPriceFilter({ dealPrice, sortBy, onDealPriceChange, onSortByChange }: DealPriceFilterProps) {
+  // Item names from a shared link (e.g. "oysters") get a chip of their own
+  const isCustomItem = dealPrice !== null && !ITEMS.some(({ item }) => item === dealPrice.item);
+
+  return (
+    <div className="deal-price-filter">
+      <label className="filter-label">Deal Price</label>
+      <div className="filter-chips">
+        {ITEMS.map(({ item, label }) => (
+          <button
+            key={item}
+            className={`chip ${dealPrice?.item === item ? 'active' : ''}`}
+            onClick={() => onDealPriceChange(
+              dealPrice?.item === item ? null : { item, maxPrice: dealPrice?.maxPrice ?? DEFAULT_MAX_PRICE },
+            )}
+          >
+            {label}
+          </button>
+        ))}
+        {isCustomItem && (
+          <button className="chip active" onClick={() => onDealPriceChange(null)}>
+            {dealPrice.item} ✕
+          </button>
+        )}
+        <button
+          className={`chip ${sortBy === 'cheapest-drink' ? 'active' : ''}`}
+          onClick={() => onSortByChange(sortBy === 'cheapest-drink' ? 'relevance' : 'cheapest-drink')}
+          aria-pressed={sortBy === 'cheapest-drink'}
+        >
+          💲 Cheapest Drink First
+        </button>
+      </div>
+
+      {dealPrice && (
+        <div className="filter-chips deal-price-options">
+          {MAX_PRICES.map(price => (
+            <button
+              key={price}
+              className={`chip ${dealPrice.maxPrice === price ? 'active' : ''}`}
+              onClick={() => onDealPriceChange({ ...dealPrice, maxPrice: price })}
+            >
+              ≤ ${price}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
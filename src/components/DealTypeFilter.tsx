@@ -1,30 +1,54 @@
+import { ChipCount } from './ChipCount';
+
 interface DealTypeFilterProps {
   dealType: 'all' | 'drinks' | 'food';
+  verifiedOnly: boolean;
+  counts?: Record<string, number>;
+  verifiedCount?: number;
   onChange: (type: 'all' | 'drinks' | 'food') => void;
+  onVerifiedOnlyChange: (verifiedOnly: boolean) => void;
 }
 
-export function DealTypeFilter({ dealType, onChange }: DealTypeFilterProps) {
+export function DealTypeFilter({
+  dealType,
+  verifiedOnly,
+  counts,
+  verifiedCount,
+  onChange,
+  onVerifiedOnlyChange,
+}: DealTypeFilterProps) {
   return (
     <div className="deal-type-filter">
       <label className="filter-label">Deal Type</label>
       <div className="deal-type-chips">
         <button
-          className={`chip deal-chip ${dealType === 'all' ? 'active' : ''}`}
+          className={`chip deal-chip ${dealType === 'all' ? 'active' : ''} ${counts?.all === 0 ? 'empty' : ''}`}
           onClick={() => onChange('all')}
         >
           🍻 All Deals
+          <ChipCount count={counts?.all} />
         </button>
         <button
-          className={`chip deal-chip ${dealType === 'drinks' ? 'active' : ''}`}
+          className={`chip deal-chip ${dealType === 'drinks' ? 'active' : ''} ${counts?.drinks === 0 ? 'empty' : ''}`}
           onClick={() => onChange('drinks')}
         >
           🍸 Drink Specials
+          <ChipCount count={counts?.drinks} />
         </button>
         <button
-          className={`chip deal-chip ${dealType === 'food' ? 'active' : ''}`}
+          className={`chip deal-chip ${dealType === 'food' ? 'active' : ''} ${counts?.food === 0 ? 'empty' : ''}`}
           onClick={() => onChange('food')}
         >
           🍔 Food Specials
+          <ChipCount count={counts?.food} />
+        </button>
+        <button
+          className={`chip deal-chip verified-chip ${verifiedOnly ? 'active' : ''} ${verifiedCount === 0 ? 'empty' : ''}`}
+          onClick={() => onVerifiedOnlyChange(!verifiedOnly)}
+          aria-pressed={verifiedOnly}
+        >
+          ✓ Verified Deals Only
+          <ChipCount count={verifiedCount} />
         </button>
       </div>
     </div>
@@ -0,0 +1,20 @@
+import type { Venue } from '../data/venues';
+import { useFavorites } from '../hooks/useFavorites';
+import { toggleFavorite } from '../lib/favorites';
+
+export function FavoriteButton({ venue }: { venue: Venue }) {
+  const { favoriteIds } = useFavorites();
+  const isFavorite = favoriteIds.has(venue.id);
+
+  return (
+    <button
+      className={`favorite-button ${isFavorite ? 'active' : ''}`}
+      onClick={() => toggleFavorite(venue)}
+      aria-pressed={isFavorite}
+      aria-label={isFavorite ? `Remove ${venue.name} from favorites` : `Add ${venue.name} to favorites`}
+      title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+    >
+      {isFavorite ? '★' : '☆'}
+    </button>
+  );
+}
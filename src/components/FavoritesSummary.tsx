@@ -0,0 +1,114 @@
+import { useRef, useState } from 'react';
+import { venues } from '../data/venues';
+import type { ZonedTime } from '../lib/clock';
+import { exportFavorites, importFavorites, removeFavorite } from '../lib/favorites';
+import { useFavorites } from '../hooks/useFavorites';
+import { isHappeningAt } from '../hooks/useSearch';
+import { handleLinkClick, venuePath } from '../hooks/useRoute';
+
+interface FavoritesSummaryProps {
+  moment: ZonedTime;
+  isPlanned: boolean;
+}
+
+export function FavoritesSummary({ moment, isPlanned }: FavoritesSummaryProps) {
+  const { favorites } = useFavorites();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([exportFavorites()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'atx-happy-hour-favorites.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const added = importFavorites(await file.text());
+      setMessage(added > 0 ? `Imported ${added} favorite${added !== 1 ? 's' : ''}` : 'No new favorites in that file');
+    } catch (err) {
+      console.error('Favorites import failed:', err);
+      setMessage("That file doesn't look like a favorites export");
+    }
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const importControl = (
+    <>
+      <button className="favorites-action" onClick={() => fileInputRef.current?.click()}>Import</button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+    </>
+  );
+
+  if (favorites.length === 0) {
+    return (
+      <div className="favorites-summary empty">
+        <span>☆ Star venues to keep track of your spots</span>
+        {importControl}
+        {message && <span className="favorites-message">{message}</span>}
+      </div>
+    );
+  }
+
+  const listed = favorites
+    .map(f => venues.find(v => v.id === f.id))
+    .filter(v => v !== undefined);
+  const unlisted = favorites.filter(f => !venues.some(v => v.id === f.id));
+  const live = listed.filter(v => isHappeningAt(v, moment));
+
+  return (
+    <div className="favorites-summary">
+      <div className="favorites-header">
+        <span className="favorites-title">★ My Spots</span>
+        <span className="favorites-count">
+          {live.length > 0 ? (
+            <>
+              <span className="pulse-dot"></span>
+              {live.length} of {listed.length} {isPlanned ? 'live then' : 'happening now'}
+            </>
+          ) : (
+            `None of your ${listed.length} spot${listed.length !== 1 ? 's' : ''} ${isPlanned ? 'live then' : 'happening now'}`
+          )}
+        </span>
+        <div className="favorites-actions">
+          <button className="favorites-action" onClick={handleExport}>Export</button>
+          {importControl}
+        </div>
+      </div>
+      {message && <p className="favorites-message">{message}</p>}
+
+      {live.length > 0 && (
+        <ul className="favorites-live">
+          {live.map(v => (
+            <li key={v.id}>
+              <a href={venuePath(v.id)} onClick={(e) => handleLinkClick(e, venuePath(v.id))}>
+                {v.image} {v.name}
+              </a>
+              <span className="favorites-deal">{v.dealText}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unlisted.length > 0 && (
+        <ul className="favorites-unlisted">
+          {unlisted.map(f => (
+            <li key={f.id}>
+              <span>{f.name}</span>
+              <span className="unlisted-badge">No longer listed</span>
+              <button className="favorites-action" onClick={() => removeFavorite(f.id)}>Remove</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
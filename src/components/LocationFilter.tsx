@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { neighborhoodCentroids } from '../data/neighborhoods';
+import type { Filters } from '../hooks/useSearch';
+import type { SearchOrigin } from '../lib/geo';
+
+interface LocationFilterProps {
+  origin: SearchOrigin | null;
+  maxDistance: number | null;
+  sortBy: Filters['sortBy'];
+  onOriginChange: (origin: SearchOrigin | null) => void;
+  onMaxDistanceChange: (miles: number | null) => void;
+  onSortByChange: (sortBy: Filters['sortBy']) => void;
+  onPickOnMap: () => void;
+}
+
+const DISTANCES = [0.5, 1, 2, 5];
+
+export function LocationFilter({
+  origin,
+  maxDistance,
+  sortBy,
+  onOriginChange,
+  onMaxDistanceChange,
+  onSortByChange,
+  onPickOnMap,
+}: LocationFilterProps) {
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const locateDevice = () => {
+    if (!('geolocation' in navigator)) {
+      setError('Location is not available in this browser');
+      return;
+    }
+
+    setIsLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        onOriginChange({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          label: 'My location',
+          source: 'device',
+        });
+      },
+      (err) => {
+        setIsLocating(false);
+        setError(err.code === err.PERMISSION_DENIED ? 'Location permission denied' : 'Could not get your location');
+      },
+      { timeout: 10000, maximumAge: 60000 },
+    );
+  };
+
+  const selectNeighborhood = (name: string) => {
+    const centroid = neighborhoodCentroids[name];
+    onOriginChange(centroid ? { ...centroid, label: name, source: 'neighborhood' } : null);
+  };
+
+  return (
+    <div className="location-filter">
+      <label className="filter-label">Near</label>
+      <div className="filter-chips">
+        <button
+          className={`chip ${origin?.source === 'device' ? 'active' : ''}`}
+          onClick={locateDevice}
+          disabled={isLocating}
+        >
+          {isLocating ? 'Locating...' : '📍 Me'}
+        </button>
+        <button
+          className={`chip ${origin?.source === 'picked' ? 'active' : ''}`}
+          onClick={onPickOnMap}
+        >
+          📌 Pick on Map
+        </button>
+        <select
+          className={`chip location-select ${origin?.source === 'neighborhood' ? 'active' : ''}`}
+          value={origin?.source === 'neighborhood' ? origin.label : ''}
+          onChange={(e) => selectNeighborhood(e.target.value)}
+          aria-label="Neighborhood"
+        >
+          <option value="">Neighborhood...</option>
+          {Object.keys(neighborhoodCentroids).map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        {origin && (
+          <button className="chip" onClick={() => onOriginChange(null)} aria-label="Clear location">
+            ✕
+          </button>
+        )}
+      </div>
+      {error && <p className="location-error">{error}</p>}
+
+      {origin && (
+        <div className="location-options">
+          <div className="filter-chips">
+            {DISTANCES.map(miles => (
+              <button
+                key={miles}
+                className={`chip ${maxDistance === miles ? 'active' : ''}`}
+                onClick={() => onMaxDistanceChange(maxDistance === miles ? null : miles)}
+              >
+                ≤ {miles} mi
+              </button>
+            ))}
+          </div>
+          <div className="filter-chips">
+            <button
+              className={`chip ${sortBy === 'relevance' ? 'active' : ''}`}
+              onClick={() => onSortByChange('relevance')}
+            >
+              Best Match
+            </button>
+            <button
+              className={`chip ${sortBy === 'distance' ? 'active' : ''}`}
+              onClick={() => onSortByChange('distance')}
+            >
+              Nearest
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { Venue } from '../data/venues';
+import type { ZonedTime } from '../lib/clock';
+import { clusterPoints, type LatLng } from '../lib/cluster';
+import type { SearchOrigin } from '../lib/geo';
+import { formatDays } from '../lib/schedule';
+import { isHappeningAt, isStartingSoon } from '../hooks/useSearch';
+import { handleLinkClick, venuePath } from '../hooks/useRoute';
+
+interface MapViewProps {
+  venues: Venue[];
+  moment: ZonedTime;
+  soonWithinMinutes: number;
+  origin?: SearchOrigin | null;
+  isPicking?: boolean;
+  onPick?: (point: LatLng) => void;
+}
+
+type MappedVenue = Venue & { lat: number; lng: number };
+type PinStatus = 'live' | 'soon' | 'idle';
+
+// Tiles can be pointed at a self-hosted or local tile server (e.g. /tiles/{z}/{x}/{y}.png
+// served from public/) so the map works offline
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = import.meta.env.VITE_MAP_TILE_ATTRIBUTION || '&copy; OpenStreetMap contributors';
+const MAX_ZOOM = Number(import.meta.env.VITE_MAP_MAX_ZOOM) || 18;
+
+// Downtown Austin, used until results with coordinates arrive
+const DEFAULT_CENTER: L.LatLngTuple = [30.2672, -97.7431];
+const DEFAULT_ZOOM = 12;
+
+function hasCoordinates(venue: Venue): venue is MappedVenue {
+  return typeof venue.lat === 'number' && typeof venue.lng === 'number';
+}
+
+function getPinStatus(venues: Venue[], moment: ZonedTime, soonWithinMinutes: number): PinStatus {
+  if (venues.some(v => isHappeningAt(v, moment))) return 'live';
+  if (venues.some(v => isStartingSoon(v, moment, soonWithinMinutes))) return 'soon';
+  return 'idle';
+}
+
+export function MapView({ venues, moment, soonWithinMinutes, origin = null, isPicking = false, onPick }: MapViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+  const originLayerRef = useRef<L.LayerGroup | null>(null);
+
+  // Read by the map's click handler, which is bound once
+  const pickRef = useRef<MapViewProps['onPick']>();
+  pickRef.current = isPicking ? onPick : undefined;
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [selected, setSelected] = useState<Venue | null>(null);
+  const { day, minutes } = moment;
+
+  const mapped = useMemo(() => venues.filter(hasCoordinates), [venues]);
+  const unmapped = useMemo(() => venues.filter(v => !hasCoordinates(v)), [venues]);
+
+  // Create the map once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current, { zoomControl: true }).setView(DEFAULT_CENTER, DEFAULT_ZOOM);
+    L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: MAX_ZOOM }).addTo(map);
+    layerRef.current = L.layerGroup().addTo(map);
+    originLayerRef.current = L.layerGroup().addTo(map);
+    map.on('zoomend', () => setZoom(map.getZoom()));
+    map.on('click', (e: L.LeafletMouseEvent) => {
+      if (pickRef.current) {
+        pickRef.current({ lat: e.latlng.lat, lng: e.latlng.lng });
+      } else {
+        setSelected(null);
+      }
+    });
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      layerRef.current = null;
+      originLayerRef.current = null;
+    };
+  }, []);
+
+  // Fit to the result set whenever it changes
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || mapped.length === 0) return;
+
+    map.fitBounds(L.latLngBounds(mapped.map(v => [v.lat, v.lng] as L.LatLngTuple)), {
+      padding: [32, 32],
+      maxZoom: 15,
+    });
+  }, [mapped]);
+
+  // Redraw pins and clusters for the current zoom
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = layerRef.current;
+    if (!map || !layer) return;
+
+    layer.clearLayers();
+    const at: ZonedTime = { day, minutes };
+
+    for (const cluster of clusterPoints(mapped, v => v, zoom)) {
+      const status = getPinStatus(cluster.items, at, soonWithinMinutes);
+
+      if (cluster.items.length === 1) {
+        const [venue] = cluster.items;
+        L.marker([venue.lat, venue.lng], {
+          title: venue.name,
+          icon: L.divIcon({ className: `map-pin ${status}`, html: venue.image, iconSize: [32, 32] }),
+        })
+          .on('click', () => setSelected(venue))
+          .addTo(layer);
+      } else {
+        const bounds = L.latLngBounds(cluster.items.map(v => [v.lat, v.lng] as L.LatLngTuple));
+        L.marker([cluster.lat, cluster.lng], {
+          title: `${cluster.items.length} venues`,
+          icon: L.divIcon({ className: `map-cluster ${status}`, html: String(cluster.items.length), iconSize: [40, 40] }),
+        })
+          .on('click', () => map.fitBounds(bounds, { padding: [48, 48] }))
+          .addTo(layer);
+      }
+    }
+  }, [mapped, zoom, day, minutes, soonWithinMinutes]);
+
+  // Mark where distances are measured from
+  useEffect(() => {
+    const layer = originLayerRef.current;
+    if (!layer) return;
+
+    layer.clearLayers();
+    if (origin) {
+      L.circleMarker([origin.lat, origin.lng], { radius: 8, className: 'map-origin' })
+        .bindTooltip(origin.label)
+        .addTo(layer);
+    }
+  }, [origin]);
+
+  const selectedStatus = selected ? getPinStatus([selected], moment, soonWithinMinutes) : 'idle';
+
+  return (
+    <div className="map-view">
+      <div className={`map-container ${isPicking ? 'picking' : ''}`}>
+        <div ref={containerRef} className="map-canvas" />
+
+        {isPicking && (
+          <div className="map-hint">Click the map to set your starting point</div>
+        )}
+
+        {selected && (
+          <div className="map-popover">
+            <button className="map-popover-close" onClick={() => setSelected(null)} aria-label="Close">
+              ✕
+            </button>
+            <div className="map-popover-header">
+              <span className="map-popover-emoji">{selected.image}</span>
+              <div>
+                <h3>{selected.name}</h3>
+                <span className="venue-rating">⭐ {selected.rating.toFixed(1)}</span>
+                <span className="venue-price"> · {'$'.repeat(selected.priceLevel)}</span>
+              </div>
+            </div>
+            {selectedStatus !== 'idle' && (
+              <span className={`map-status ${selectedStatus}`}>
+                {selectedStatus === 'live' ? 'LIVE' : 'Starting soon'}
+              </span>
+            )}
+            <p className="venue-deal">{selected.dealText}</p>
+            <ul className="map-popover-schedule">
+              {selected.schedule.map((w, i) => (
+                <li key={i}>🕐 {formatDays(w.days)} {w.startTime} - {w.endTime}</li>
+              ))}
+            </ul>
+            <p className="map-popover-address">📍 {selected.address}</p>
+            <div className="map-popover-links">
+              <a
+                href={venuePath(selected.id)}
+                onClick={(e) => handleLinkClick(e, venuePath(selected.id))}
+                className="maps-link"
+              >
+                Details →
+              </a>
+              {selected.googleMapsUrl && (
+                <a href={selected.googleMapsUrl} target="_blank" rel="noopener noreferrer" className="maps-link">
+                  View on Maps →
+                </a>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="map-legend">
+          <span><span className="legend-dot live" /> Live</span>
+          <span><span className="legend-dot soon" /> Starting soon</span>
+          <span><span className="legend-dot idle" /> Later</span>
+        </div>
+      </div>
+
+      {unmapped.length > 0 && (
+        <div className="unmapped-venues">
+          <p className="filter-label">
+            {unmapped.length} venue{unmapped.length !== 1 ? 's' : ''} without a map location
+          </p>
+          <ul>
+            {unmapped.map(v => (
+              <li key={v.id}>
+                <button className="unmapped-venue" onClick={() => setSelected(v)}>
+                  {v.image} {v.name} <span className="unmapped-address">{v.address}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
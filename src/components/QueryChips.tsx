@@ -0,0 +1,30 @@
+import type { ParsedQuery, QueryToken } from '../lib/queryParser';
+
+interface QueryChipsProps {
+  parsed: ParsedQuery;
+  onRemove: (token: QueryToken) => void;
+}
+
+// How the search box was read: the phrases applied as filters, and the text
+// that's still searched for
+export function QueryChips({ parsed, onRemove }: QueryChipsProps) {
+  if (parsed.tokens.length === 0) return null;
+
+  return (
+    <div className="query-chips" aria-live="polite">
+      <span className="query-chips-label">Searching</span>
+      {parsed.text && <span className="query-text">“{parsed.text}”</span>}
+      {parsed.tokens.map((token, i) => (
+        <button
+          key={`${token.text}-${i}`}
+          className="chip active query-chip"
+          onClick={() => onRemove(token)}
+          aria-label={`Remove ${token.label.replace(/^\S+\s/, '')} from search`}
+          title={`From “${token.text}”`}
+        >
+          {token.label} ✕
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,20 +1,89 @@
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useState } from 'react';
+import type { Suggestion, SuggestionKind } from '../lib/suggestions';
 
 interface SearchInputProps {
   value: string;
   onChange: (value: string) => void;
+  // Asks the search index what to suggest for the typed text
+  suggest: (query: string) => Promise<Suggestion[]>;
+  onSelectSuggestion: (suggestion: Suggestion) => void;
   resultCount: number;
   searchTimeMs: number;
 }
 
-export function SearchInput({ value, onChange, resultCount, searchTimeMs }: SearchInputProps) {
+const KIND_LABELS: Record<SuggestionKind, string> = {
+  venue: 'Venue',
+  neighborhood: 'Neighborhood',
+  cuisine: 'Cuisine',
+  deal: 'Deal',
+};
+
+const LISTBOX_ID = 'search-suggestions';
+
+const optionId = (index: number) => `${LISTBOX_ID}-${index}`;
+
+// Search box with a suggestion list, following the ARIA combobox pattern:
+// focus stays in the input and arrow keys move the active option
+export function SearchInput({ value, onChange, suggest, onSelectSuggestion, resultCount, searchTimeMs }: SearchInputProps) {
   const inputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+
+  // An answer for text that has since changed is dropped
+  useEffect(() => {
+    let cancelled = false;
+    suggest(value)
+      .then(found => {
+        if (cancelled) return;
+        setSuggestions(found);
+        setActiveIndex(i => (i < found.length ? i : -1));
+      })
+      .catch(err => {
+        if (!cancelled) console.error('Suggestion error:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [value, suggest]);
+  const isExpanded = isOpen && suggestions.length > 0;
 
   // Focus input on mount
   useEffect(() => {
     inputRef.current?.focus();
   }, []);
 
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const select = (suggestion: Suggestion) => {
+    close();
+    onSelectSuggestion(suggestion);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!isExpanded) {
+        setIsOpen(true);
+        setActiveIndex(e.key === 'ArrowDown' ? 0 : suggestions.length - 1);
+        return;
+      }
+      // -1 is the input itself, so moving past either end returns to what was typed
+      const positions = suggestions.length + 1;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(i => (i + 1 + step + positions) % positions - 1);
+    } else if (e.key === 'Enter' && isExpanded && activeIndex >= 0) {
+      e.preventDefault();
+      select(suggestions[activeIndex]);
+    } else if (e.key === 'Escape' && isExpanded) {
+      e.preventDefault();
+      close();
+    }
+  };
+
   return (
     <div className="search-input-container">
       <div className="search-icon">🔍</div>
@@ -24,7 +93,19 @@ export function SearchInput({ value, onChange, resultCount, searchTimeMs }: Sear
         className="search-input"
         placeholder="Search venues, deals, neighborhoods..."
         value={value}
-        onChange={(e) => onChange(e.target.value)}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={close}
+        role="combobox"
+        aria-label="Search happy hours"
+        aria-autocomplete="list"
+        aria-expanded={isExpanded}
+        aria-controls={LISTBOX_ID}
+        aria-activedescendant={isExpanded && activeIndex >= 0 ? optionId(activeIndex) : undefined}
         autoComplete="off"
         spellCheck={false}
       />
@@ -40,6 +121,24 @@ export function SearchInput({ value, onChange, resultCount, searchTimeMs }: Sear
       <div className="search-meta">
         {resultCount} results in {searchTimeMs.toFixed(1)}ms
       </div>
+      <ul id={LISTBOX_ID} className="search-suggestions" role="listbox" aria-label="Suggestions" hidden={!isExpanded}>
+        {isExpanded && suggestions.map((suggestion, i) => (
+          <li
+            key={`${suggestion.kind}-${suggestion.value}`}
+            id={optionId(i)}
+            className={`search-suggestion ${i === activeIndex ? 'active' : ''}`}
+            role="option"
+            aria-selected={i === activeIndex}
+            // Keep focus in the input so the click lands before blur closes the list
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => select(suggestion)}
+            onMouseEnter={() => setActiveIndex(i)}
+          >
+            <span className="suggestion-label">{suggestion.label}</span>
+            <span className={`suggestion-kind suggestion-kind-${suggestion.kind}`}>{KIND_LABELS[suggestion.kind]}</span>
+          </li>
+        ))}
+      </ul>
     </div>
   );
 }
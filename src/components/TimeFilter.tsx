@@ -1,19 +1,106 @@
+import { getCurrentDay, type Filters } from '../hooks/useSearch';
+import { toggleValue } from '../lib/filters';
+import { formatMinutes, WEEKDAYS } from '../lib/schedule';
+import type { Clock, ZonedTime } from '../lib/clock';
+import { ChipCount } from './ChipCount';
+
 interface TimeFilterProps {
-  timeFilter: 'all' | 'now' | 'soon' | 'today';
-  selectedDay: string | null;
-  onTimeFilterChange: (filter: 'all' | 'now' | 'soon' | 'today') => void;
-  onDayChange: (day: string | null) => void;
+  timeFilter: Filters['timeFilter'];
+  plannedAt: ZonedTime | null;
+  soonWithinMinutes: number;
+  selectedDays: string[];
+  dayCounts?: Record<string, number>;
+  clock: Clock;
+  onTimeFilterChange: (filter: Filters['timeFilter']) => void;
+  onPlannedAtChange: (plannedAt: ZonedTime | null) => void;
+  onSoonWithinChange: (minutes: number) => void;
+  onDaysChange: (days: string[]) => void;
+}
+
+const SOON_HORIZONS = [30, 60, 120, 180];
+
+// Default when switching to planning mode: today at 5:00 PM
+const DEFAULT_PLANNED_MINUTES = 17 * 60;
+
+// 90 -> "1h 30m"
+function formatHorizon(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
 }
 
-const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// Minutes since midnight <-> "17:30" for <input type="time">
+function toTimeInputValue(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function fromTimeInputValue(value: string): number | null {
+  const [hours, minutes] = value.split(':').map(n => parseInt(n, 10));
+  if (isNaN(hours) || isNaN(minutes)) return null;
+  return hours * 60 + minutes;
+}
 
-export function TimeFilter({ timeFilter, selectedDay, onTimeFilterChange, onDayChange }: TimeFilterProps) {
-  const today = DAYS[new Date().getDay()];
+export function TimeFilter({
+  timeFilter,
+  plannedAt,
+  soonWithinMinutes,
+  selectedDays,
+  dayCounts,
+  clock,
+  onTimeFilterChange,
+  onPlannedAtChange,
+  onSoonWithinChange,
+  onDaysChange,
+}: TimeFilterProps) {
+  const today = getCurrentDay(clock);
+  const momentLabel = plannedAt ? `${plannedAt.day.slice(0, 3)} ${formatMinutes(plannedAt.minutes)}` : 'Now';
 
   return (
     <div className="time-filter">
       <div className="time-filter-section">
-        <label className="filter-label">When</label>
+        <label className="filter-label">Plan For</label>
+        <div className="time-chips">
+          <button
+            className={`chip time-chip ${plannedAt === null ? 'active' : ''}`}
+            onClick={() => onPlannedAtChange(null)}
+          >
+            Right Now
+          </button>
+          <button
+            className={`chip time-chip ${plannedAt !== null ? 'active' : ''}`}
+            onClick={() => plannedAt === null && onPlannedAtChange({ day: today, minutes: DEFAULT_PLANNED_MINUTES })}
+          >
+            📅 Pick a Time
+          </button>
+          {plannedAt && (
+            <div className="planner">
+              <select
+                className="planner-day"
+                value={plannedAt.day}
+                onChange={(e) => onPlannedAtChange({ ...plannedAt, day: e.target.value })}
+                aria-label="Day"
+              >
+                {WEEKDAYS.map(day => (
+                  <option key={day} value={day}>{day}</option>
+                ))}
+              </select>
+              <input
+                type="time"
+                className="planner-time"
+                value={toTimeInputValue(plannedAt.minutes)}
+                step={900}
+                onChange={(e) => {
+                  const minutes = fromTimeInputValue(e.target.value);
+                  if (minutes !== null) onPlannedAtChange({ ...plannedAt, minutes });
+                }}
+                aria-label="Time"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="time-filter-section">
+        <label className="filter-label">Show</label>
         <div className="time-chips">
           <button
             className={`chip time-chip ${timeFilter === 'all' ? 'active' : ''}`}
@@ -22,38 +109,55 @@ export function TimeFilter({ timeFilter, selectedDay, onTimeFilterChange, onDayC
             Any Time
           </button>
           <button
-            className={`chip time-chip happening-now ${timeFilter === 'now' ? 'active' : ''}`}
-            onClick={() => onTimeFilterChange('now')}
+            className={`chip time-chip happening-now ${timeFilter === 'live' ? 'active' : ''}`}
+            onClick={() => onTimeFilterChange('live')}
           >
             <span className="pulse-dot"></span>
-            Happening Now
+            Live {plannedAt ? 'Then' : 'Now'}
           </button>
           <button
             className={`chip time-chip ${timeFilter === 'soon' ? 'active' : ''}`}
             onClick={() => onTimeFilterChange('soon')}
           >
-            Starting Soon
+            Live or Starting Soon
           </button>
           <button
-            className={`chip time-chip ${timeFilter === 'today' ? 'active' : ''}`}
-            onClick={() => onTimeFilterChange('today')}
+            className={`chip time-chip ${timeFilter === 'day' ? 'active' : ''}`}
+            onClick={() => onTimeFilterChange('day')}
           >
-            Today ({today.slice(0, 3)})
+            All Day ({(plannedAt?.day || today).slice(0, 3)})
           </button>
         </div>
+        {timeFilter === 'soon' && (
+          <div className="horizon-chips">
+            <span className="horizon-label">Starting within</span>
+            {SOON_HORIZONS.map(minutes => (
+              <button
+                key={minutes}
+                className={`chip horizon-chip ${soonWithinMinutes === minutes ? 'active' : ''}`}
+                onClick={() => onSoonWithinChange(minutes)}
+              >
+                {formatHorizon(minutes)}
+              </button>
+            ))}
+            <span className="horizon-label">of {momentLabel}</span>
+          </div>
+        )}
       </div>
 
       <div className="time-filter-section">
-        <label className="filter-label">Check a Specific Day</label>
+        <label className="filter-label">Check Specific Days</label>
         <div className="day-chips">
-          {DAYS.map(day => (
+          {WEEKDAYS.map(day => (
             <button
               key={day}
-              className={`chip day-chip ${selectedDay === day ? 'active' : ''} ${day === today ? 'today' : ''}`}
-              onClick={() => onDayChange(selectedDay === day ? null : day)}
+              className={`chip day-chip ${selectedDays.includes(day) ? 'active' : ''} ${day === today ? 'today' : ''} ${dayCounts?.[day] === 0 ? 'empty' : ''}`}
+              onClick={() => onDaysChange(toggleValue(selectedDays, day))}
+              aria-pressed={selectedDays.includes(day)}
             >
               {day.slice(0, 3)}
               {day === today && <span className="today-dot"></span>}
+              <ChipCount count={dayCounts?.[day]} />
             </button>
           ))}
         </div>
@@ -1,25 +1,43 @@
 import { useState } from 'react';
 import type { Venue } from '../data/venues';
+import { formatDays, getScheduleDays } from '../lib/schedule';
+import { formatDistance, getVenueLocation } from '../lib/geo';
+import { handleLinkClick, venuePath } from '../hooks/useRoute';
+import { highlightKey, splitWords } from '../lib/highlight';
+import { FavoriteButton } from './FavoriteButton';
 
 interface VenueCardProps {
   venue: Venue;
-  searchQuery?: string;
+  // Words the search matched, as highlightKey gives them
+  highlightWords?: ReadonlySet<string>;
   isHappeningNow?: boolean;
+  distanceMiles?: number | null;
 }
 
-// Highlight matching text
-function highlightMatch(text: string, query: string): React.ReactNode {
-  if (!query.trim()) return text;
+// Highlight the words the search matched
+function highlightMatch(text: string, words: ReadonlySet<string>): React.ReactNode {
+  if (words.size === 0) return text;
 
-  const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-  const parts = text.split(regex);
-
-  return parts.map((part, i) =>
-    regex.test(part) ? <mark key={i} className="highlight">{part}</mark> : part
+  return splitWords(text).map((part, i) =>
+    i % 2 === 1 && words.has(highlightKey(part)) ? <mark key={i} className="highlight">{part}</mark> : part
   );
 }
 
-export function VenueCard({ venue, searchQuery = '', isHappeningNow = false }: VenueCardProps) {
+const noWords: ReadonlySet<string> = new Set();
+
+// "3:00 PM - 6:00 PM", prefixed with days when windows differ by day
+function formatSchedule(venue: Venue): string {
+  if (venue.schedule.length === 1) {
+    const [window] = venue.schedule;
+    return `${window.startTime} - ${window.endTime}`;
+  }
+
+  return venue.schedule
+    .map(window => `${formatDays(window.days)} ${window.startTime} - ${window.endTime}`)
+    .join(' · ');
+}
+
+export function VenueCard({ venue, highlightWords = noWords, isHappeningNow = false, distanceMiles = null }: VenueCardProps) {
   const [imageError, setImageError] = useState(false);
   const hasPhoto = venue.photoUrl && !imageError;
 
@@ -46,38 +64,52 @@ export function VenueCard({ venue, searchQuery = '', isHappeningNow = false }: V
       <div className="venue-content">
         <div className="venue-header">
           <h3 className="venue-name">
-            {venue.googleMapsUrl ? (
-              <a href={venue.googleMapsUrl} target="_blank" rel="noopener noreferrer">
-                {highlightMatch(venue.name, searchQuery)}
-              </a>
-            ) : (
-              highlightMatch(venue.name, searchQuery)
-            )}
+            <a href={venuePath(venue.id)} onClick={(e) => handleLinkClick(e, venuePath(venue.id))}>
+              {highlightMatch(venue.name, highlightWords)}
+            </a>
           </h3>
           <span className="venue-rating">
             ⭐ {venue.rating.toFixed(1)}
-            {venue.ratingsCount && (
+            {venue.ratingsCount !== undefined && venue.ratingsCount > 0 && (
               <span className="ratings-count">({venue.ratingsCount.toLocaleString()})</span>
             )}
           </span>
+          <FavoriteButton venue={venue} />
         </div>
-        <p className="venue-deal">{highlightMatch(venue.dealText, searchQuery)}</p>
+        <p className={`venue-deal ${venue.dealSource === 'unverified' ? 'unverified' : ''}`}>
+          {highlightMatch(venue.dealText, highlightWords)}
+          {venue.dealSource === 'unverified' && (
+            <span className="deal-source-badge" title="We haven't confirmed this venue's deals yet">
+              Unverified
+            </span>
+          )}
+          {venue.dealSource === 'user-submitted' && (
+            <span className="deal-source-badge user-submitted" title="Submitted by a user">
+              User submitted
+            </span>
+          )}
+        </p>
         <div className="venue-meta">
-          <span className="venue-neighborhood">📍 {highlightMatch(venue.neighborhood, searchQuery)}</span>
-          <span className="venue-time">🕐 {venue.startTime} - {venue.endTime}</span>
+          <span className="venue-neighborhood">📍 {highlightMatch(venue.neighborhood, highlightWords)}</span>
+          <span className="venue-time">🕐 {formatSchedule(venue)}</span>
           <span className="venue-price">{'$'.repeat(venue.priceLevel)}</span>
+          {distanceMiles !== null && (
+            <span className="venue-distance">
+              🚶 {formatDistance(distanceMiles, getVenueLocation(venue)?.approximate)}
+            </span>
+          )}
         </div>
         <div className="venue-tags">
           {venue.drinks.slice(0, 3).map(drink => (
-            <span key={drink} className="tag drink-tag">🍸 {drink}</span>
+            <span key={drink} className="tag drink-tag">🍸 {highlightMatch(drink, highlightWords)}</span>
           ))}
           {venue.food.slice(0, 2).map(food => (
-            <span key={food} className="tag food-tag">🍴 {food}</span>
+            <span key={food} className="tag food-tag">🍴 {highlightMatch(food, highlightWords)}</span>
           ))}
         </div>
         <div className="venue-footer">
           <div className="venue-days">
-            {venue.days.map(d => (
+            {getScheduleDays(venue).map(d => (
               <span key={d} className="day-tag">{d.slice(0, 3)}</span>
             ))}
           </div>
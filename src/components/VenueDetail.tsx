@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { venues, type Venue } from '../data/venues';
+import type { ZonedTime } from '../lib/clock';
+import { distanceMiles, formatDistance, getVenueLocation } from '../lib/geo';
+import { MONDAY_FIRST, formatMinutes, getNextWindowStart } from '../lib/schedule';
+import { isHappeningAt } from '../hooks/useSearch';
+import { handleLinkClick, navigateBack, venuePath } from '../hooks/useRoute';
+import { FavoriteButton } from './FavoriteButton';
+
+interface VenueDetailProps {
+  venueId: string;
+  moment: ZonedTime;
+  isPlanned: boolean;
+}
+
+interface Alternative {
+  venue: Venue;
+  distance: number | null;
+  approximate: boolean;
+}
+
+// How far to look for alternatives
+const NEARBY_MILES = 2;
+const MAX_ALTERNATIVES = 4;
+
+// 135 -> "2h 15m"
+function formatDuration(minutes: number): string {
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const mins = minutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+}
+
+// Other venues live at the given moment, close by and similar in cuisine or
+// specials. Venues without a known location fall back to the same neighborhood.
+function findNearbyAlternatives(venue: Venue, at: ZonedTime): Alternative[] {
+  const location = getVenueLocation(venue);
+  const tags = new Set([...venue.drinks, ...venue.food]);
+
+  const similarity = (other: Venue) =>
+    (other.cuisine === venue.cuisine ? 2 : 0) +
+    [...other.drinks, ...other.food].filter(tag => tags.has(tag)).length;
+
+  return venues
+    .filter(other => other.id !== venue.id && isHappeningAt(other, at))
+    .map(other => {
+      const otherLocation = getVenueLocation(other);
+      const distance = location && otherLocation ? distanceMiles(location, otherLocation) : null;
+      const approximate = Boolean(location?.approximate || otherLocation?.approximate);
+      return { venue: other, distance, approximate };
+    })
+    .filter(({ venue: other, distance }) =>
+      distance !== null ? distance <= NEARBY_MILES : other.neighborhood === venue.neighborhood)
+    .sort((a, b) => {
+      const bySimilarity = similarity(b.venue) - similarity(a.venue);
+      if (bySimilarity !== 0) return bySimilarity;
+      return (a.distance ?? Infinity) - (b.distance ?? Infinity);
+    })
+    .slice(0, MAX_ALTERNATIVES);
+}
+
+export function VenueDetail({ venueId, moment, isPlanned }: VenueDetailProps) {
+  const [imageError, setImageError] = useState(false);
+  const venue = venues.find(v => v.id === venueId);
+
+  if (!venue) {
+    return (
+      <div className="venue-detail">
+        <button className="back-link" onClick={navigateBack}>← Back to results</button>
+        <div className="no-results">
+          <p>We couldn't find that venue.</p>
+          <p>It may have closed or been removed from our list.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isLive = isHappeningAt(venue, moment);
+  const next = getNextWindowStart(venue, moment.day, moment.minutes);
+  const momentLabel = isPlanned ? `${moment.day} ${formatMinutes(moment.minutes)}` : 'now';
+
+  // Compare against the moment this venue is next live, if it isn't already
+  const alternativesAt: ZonedTime | null = isLive ? moment : next && { day: next.day, minutes: next.minutes };
+  const alternatives = alternativesAt ? findNearbyAlternatives(venue, alternativesAt) : [];
+
+  return (
+    <div className="venue-detail">
+      <button className="back-link" onClick={navigateBack}>← Back to results</button>
+
+      <div className={`venue-detail-hero ${isLive ? 'happening-now' : ''}`}>
+        {venue.photoUrl && !imageError ? (
+          <img
+            className="venue-detail-photo"
+            src={venue.photoUrl}
+            alt={venue.name}
+            onError={() => setImageError(true)}
+          />
+        ) : (
+          <div className="venue-detail-emoji">{venue.image}</div>
+        )}
+        <div>
+          <div className="venue-detail-title">
+            <h2 className="venue-detail-name">{venue.name}</h2>
+            <FavoriteButton venue={venue} />
+          </div>
+          <div className="venue-meta">
+            <span className="venue-rating">
+              ⭐ {venue.rating.toFixed(1)}
+              {venue.ratingsCount !== undefined && venue.ratingsCount > 0 && (
+                <span className="ratings-count">({venue.ratingsCount.toLocaleString()})</span>
+              )}
+            </span>
+            <span className="venue-price">{'$'.repeat(venue.priceLevel)}</span>
+            <span>{venue.cuisine}</span>
+            <span>📍 {venue.neighborhood}</span>
+          </div>
+          {isLive ? (
+            <span className="venue-detail-status live">
+              <span className="pulse-dot"></span>
+              Happy hour {isPlanned ? `on ${momentLabel}` : 'on now'}
+            </span>
+          ) : next ? (
+            <span className="venue-detail-status">
+              Next happy hour {next.day} {formatMinutes(next.minutes)} · in {formatDuration(next.minutesUntil)}
+            </span>
+          ) : (
+            <span className="venue-detail-status">No upcoming happy hour listed</span>
+          )}
+        </div>
+      </div>
+
+      <section className="venue-detail-section">
+        <h3 className="filter-label">Deals</h3>
+        <p className={`venue-deal ${venue.dealSource === 'unverified' ? 'unverified' : ''}`}>
+          {venue.dealText}
+          {venue.dealSource === 'unverified' && <span className="deal-source-badge">Unverified</span>}
+          {venue.dealSource === 'user-submitted' && (
+            <span className="deal-source-badge user-submitted">User submitted</span>
+          )}
+        </p>
+        <div className="venue-tags">
+          {venue.drinks.map(drink => (
+            <span key={drink} className="tag drink-tag">🍸 {drink}</span>
+          ))}
+          {venue.food.map(food => (
+            <span key={food} className="tag food-tag">🍴 {food}</span>
+          ))}
+        </div>
+      </section>
+
+      <section className="venue-detail-section">
+        <h3 className="filter-label">Weekly Schedule</h3>
+        <table className="schedule-table">
+          <tbody>
+            {MONDAY_FIRST.map(day => {
+              const windows = venue.schedule.filter(w => w.days.includes(day));
+              return (
+                <tr key={day} className={day === moment.day ? 'current-day' : ''}>
+                  <th scope="row">{day}</th>
+                  <td>
+                    {windows.length === 0
+                      ? '—'
+                      : windows.map(w => `${w.startTime} - ${w.endTime}`).join(', ')}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="venue-detail-section">
+        <h3 className="filter-label">Location</h3>
+        <p>{venue.address}</p>
+        {venue.googleMapsUrl && (
+          <a href={venue.googleMapsUrl} target="_blank" rel="noopener noreferrer" className="maps-link">
+            View on Maps →
+          </a>
+        )}
+      </section>
+
+      {alternativesAt && (
+        <section className="venue-detail-section">
+          <h3 className="filter-label">
+            Also live nearby {isLive ? momentLabel : `${alternativesAt.day} ${formatMinutes(alternativesAt.minutes)}`}
+          </h3>
+          {alternatives.length === 0 ? (
+            <p className="venue-detail-empty">Nothing similar nearby at that time.</p>
+          ) : (
+            <ul className="alternatives">
+              {alternatives.map(({ venue: alt, distance, approximate }) => (
+                <li key={alt.id}>
+                  <a href={venuePath(alt.id)} onClick={(e) => handleLinkClick(e, venuePath(alt.id))}>
+                    <span className="alternative-emoji">{alt.image}</span>
+                    <span className="alternative-name">{alt.name}</span>
+                    <span className="alternative-meta">
+                      {alt.cuisine}
+                      {distance !== null && ` · ${formatDistance(distance, approximate)}`}
+                    </span>
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
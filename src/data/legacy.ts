@@ -0,0 +1,16 @@
+import type { HappyHourWindow, Venue } from './venues';
+
+// Builds before multi-window schedules wrote a single days/startTime/endTime
+// and no deal source, and gave unverified venues drink and food tags guessed
+// from their cuisine; upgrade those so a stale cache still loads
+export function upgradeLegacyVenue(venue: Venue & Partial<HappyHourWindow>): Venue {
+  const { days, startTime, endTime, ...rest } = venue;
+  const dealSource = rest.dealSource || 'unverified';
+  return {
+    ...rest,
+    dealSource,
+    drinks: dealSource === 'unverified' ? [] : rest.drinks,
+    food: dealSource === 'unverified' ? [] : rest.food,
+    schedule: rest.schedule || (days && startTime && endTime ? [{ days, startTime, endTime }] : []),
+  };
+}
@@ -0,0 +1,28 @@
+// Approximate centre of each Austin neighborhood we list venues in. Used as a
+// "near me" starting point and to place venues that have no coordinates.
+export const neighborhoodCentroids: Record<string, { lat: number; lng: number }> = {
+  "Downtown": { lat: 30.2672, lng: -97.7431 },
+  "East Austin": { lat: 30.2620, lng: -97.7230 },
+  "Mueller": { lat: 30.2980, lng: -97.7050 },
+  "North Loop": { lat: 30.3183, lng: -97.7206 },
+  "Rainey Street": { lat: 30.2587, lng: -97.7383 },
+  "Sixth Street": { lat: 30.2672, lng: -97.7390 },
+  "South Congress": { lat: 30.2500, lng: -97.7494 },
+  "South Lamar": { lat: 30.2490, lng: -97.7690 },
+  "Warehouse District": { lat: 30.2677, lng: -97.7470 },
+  "West Austin": { lat: 30.2735, lng: -97.7570 },
+};
+
+// What people type for each neighborhood, besides its name
+export const neighborhoodAliases: Record<string, string[]> = {
+  "Downtown": ["dt", "dtx", "downtown austin"],
+  "East Austin": ["east side", "eastside", "east atx", "e austin"],
+  "Mueller": [],
+  "North Loop": [],
+  "Rainey Street": ["rainey", "rainey st"],
+  "Sixth Street": ["6th street", "6th st", "sixth st", "dirty 6th", "dirty sixth", "east 6th"],
+  "South Congress": ["soco", "south congress ave", "s congress"],
+  "South Lamar": ["slamar", "s lamar", "south lamar blvd"],
+  "Warehouse District": ["warehouse", "2nd street district"],
+  "West Austin": ["west side", "westside", "clarksville"],
+};
@@ -0,0 +1,480 @@
+import type { Venue } from './venues';
+
+// Static fallback data, used when no Google Places data has been generated
+export const staticVenues: Venue[] = [
+  {
+    id: "1",
+    name: "The Brewtorium",
+    neighborhood: "North Loop",
+    address: "6015 Dillard Cir, Austin, TX 78752",
+    cuisine: "Brewery",
+    dealText: "$4 pints, $6 wells, $2 off appetizers",
+    dealSource: "curated",
+    drinks: ["craft beer", "wine", "cocktails"],
+    food: ["pretzels", "nachos", "wings"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "3:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.5,
+    image: "🍺"
+  },
+  {
+    id: "2",
+    name: "Loro",
+    neighborhood: "South Lamar",
+    address: "2115 S Lamar Blvd, Austin, TX 78704",
+    cuisine: "Asian-BBQ",
+    dealText: "$5 sake, $6 beer, half-price bao buns",
+    dealSource: "curated",
+    drinks: ["sake", "beer", "whiskey"],
+    food: ["bao buns", "brisket", "smoked meats"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "4:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.7,
+    image: "🥟",
+    lat: 30.2475,
+    lng: -97.7725
+  },
+  {
+    id: "3",
+    name: "Péché",
+    neighborhood: "Warehouse District",
+    address: "208 W 4th St, Austin, TX 78701",
+    cuisine: "French",
+    dealText: "$8 cocktails, $5 wine, oysters $1.50 each",
+    dealSource: "curated",
+    drinks: ["cocktails", "wine", "champagne"],
+    food: ["oysters", "charcuterie", "french fries"],
+    priceLevel: 3,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "4:00 PM", endTime: "7:00 PM" },
+    ],
+    rating: 4.6,
+    image: "🦪",
+    lat: 30.2670,
+    lng: -97.7448
+  },
+  {
+    id: "4",
+    name: "Whisler's",
+    neighborhood: "East Austin",
+    address: "1816 E 6th St, Austin, TX 78702",
+    cuisine: "Cocktail Bar",
+    dealText: "$7 classic cocktails, $4 beer",
+    dealSource: "curated",
+    drinks: ["cocktails", "mezcal", "beer"],
+    food: ["thai food upstairs"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday"], startTime: "5:00 PM", endTime: "7:00 PM" },
+    ],
+    rating: 4.8,
+    image: "🍸",
+    lat: 30.2620,
+    lng: -97.7228
+  },
+  {
+    id: "5",
+    name: "Easy Tiger",
+    neighborhood: "Sixth Street",
+    address: "709 E 6th St, Austin, TX 78701",
+    cuisine: "Beer Garden",
+    dealText: "$4 drafts, $3 pretzels, $5 sausages",
+    dealSource: "curated",
+    drinks: ["craft beer", "wine"],
+    food: ["pretzels", "sausages", "baked goods"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "3:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.4,
+    image: "🥨",
+    lat: 30.2663,
+    lng: -97.7377
+  },
+  {
+    id: "6",
+    name: "Uchi",
+    neighborhood: "South Lamar",
+    address: "801 S Lamar Blvd, Austin, TX 78704",
+    cuisine: "Japanese",
+    dealText: "$6 sake, $8 specialty rolls at the bar",
+    dealSource: "curated",
+    drinks: ["sake", "japanese whiskey", "beer"],
+    food: ["sushi", "sashimi", "tempura"],
+    priceLevel: 4,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "5:00 PM", endTime: "6:30 PM" },
+    ],
+    rating: 4.9,
+    image: "🍣",
+    lat: 30.2577,
+    lng: -97.7615
+  },
+  {
+    id: "7",
+    name: "Rainey Street Pub",
+    neighborhood: "Rainey Street",
+    address: "86 Rainey St, Austin, TX 78701",
+    cuisine: "Pub",
+    dealText: "$3 Lone Stars, $5 wells, free jukebox",
+    dealSource: "curated",
+    drinks: ["beer", "whiskey", "cocktails"],
+    food: ["burgers", "tacos"],
+    priceLevel: 1,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"], startTime: "4:00 PM", endTime: "8:00 PM" },
+      { days: ["Friday", "Saturday"], startTime: "11:00 PM", endTime: "2:00 AM" },
+    ],
+    rating: 4.2,
+    image: "🍻",
+    lat: 30.2582,
+    lng: -97.7387
+  },
+  {
+    id: "8",
+    name: "Contigo",
+    neighborhood: "Mueller",
+    address: "2027 Anchor Ln, Austin, TX 78723",
+    cuisine: "Farm to Table",
+    dealText: "$6 wine, $5 draft beer, $8 snacks",
+    dealSource: "curated",
+    drinks: ["wine", "craft beer", "cocktails"],
+    food: ["deviled eggs", "fried chicken", "local cheese"],
+    priceLevel: 3,
+    schedule: [
+      { days: ["Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "5:00 PM", endTime: "6:30 PM" },
+    ],
+    rating: 4.5,
+    image: "🍗",
+    lat: 30.2962,
+    lng: -97.7047
+  },
+  {
+    id: "9",
+    name: "Odd Duck",
+    neighborhood: "South Lamar",
+    address: "1201 S Lamar Blvd, Austin, TX 78704",
+    cuisine: "New American",
+    dealText: "$7 cocktails, half-price select plates",
+    dealSource: "curated",
+    drinks: ["cocktails", "wine", "local beer"],
+    food: ["small plates", "charcuterie", "seasonal dishes"],
+    priceLevel: 3,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "5:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.7,
+    image: "🦆",
+    lat: 30.2545,
+    lng: -97.7650
+  },
+  {
+    id: "10",
+    name: "The Roosevelt Room",
+    neighborhood: "Warehouse District",
+    address: "307 W 5th St, Austin, TX 78701",
+    cuisine: "Speakeasy",
+    dealText: "$9 classic cocktails, $6 beer",
+    dealSource: "curated",
+    drinks: ["craft cocktails", "whiskey", "absinthe"],
+    food: ["bar snacks"],
+    priceLevel: 3,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday"], startTime: "4:00 PM", endTime: "7:00 PM" },
+    ],
+    rating: 4.6,
+    image: "🎩",
+    lat: 30.2684,
+    lng: -97.7460
+  },
+  {
+    id: "11",
+    name: "Takoba",
+    neighborhood: "East Austin",
+    address: "1411 E 7th St, Austin, TX 78702",
+    cuisine: "Mexican",
+    dealText: "$5 margaritas, $3 tacos, $4 beer",
+    dealSource: "curated",
+    drinks: ["margaritas", "tequila", "beer"],
+    food: ["tacos", "queso", "guacamole"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "3:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.3,
+    image: "🌮",
+    lat: 30.2627,
+    lng: -97.7290
+  },
+  {
+    id: "12",
+    name: "Nickel City",
+    neighborhood: "East Austin",
+    address: "1133 E 11th St, Austin, TX 78702",
+    cuisine: "Dive Bar",
+    dealText: "$2 Lone Stars, $4 wells, free pool",
+    dealSource: "curated",
+    drinks: ["beer", "whiskey", "shots"],
+    food: ["pizza next door"],
+    priceLevel: 1,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"], startTime: "2:00 PM", endTime: "7:00 PM" },
+    ],
+    rating: 4.4,
+    image: "🎱",
+    lat: 30.2697,
+    lng: -97.7275
+  },
+  {
+    id: "13",
+    name: "Sway",
+    neighborhood: "South Congress",
+    address: "1417 S 1st St, Austin, TX 78704",
+    cuisine: "Thai",
+    dealText: "$6 Thai beer, $8 cocktails, $5 apps",
+    dealSource: "curated",
+    drinks: ["thai beer", "cocktails", "wine"],
+    food: ["spring rolls", "satay", "curry puffs"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "4:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.5,
+    image: "🍜",
+    lat: 30.2500,
+    lng: -97.7550
+  },
+  {
+    id: "14",
+    name: "Drink.Well",
+    neighborhood: "North Loop",
+    address: "207 E 53rd St, Austin, TX 78751",
+    cuisine: "Gastropub",
+    dealText: "$6 cocktails, $4 drafts, $2 off snacks",
+    dealSource: "curated",
+    drinks: ["craft cocktails", "craft beer", "wine"],
+    food: ["duck fat fries", "sliders", "cheese plate"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "4:00 PM", endTime: "7:00 PM" },
+    ],
+    rating: 4.5,
+    image: "🍟",
+    lat: 30.3170,
+    lng: -97.7215
+  },
+  {
+    id: "15",
+    name: "Justine's Brasserie",
+    neighborhood: "East Austin",
+    address: "4710 E 5th St, Austin, TX 78702",
+    cuisine: "French",
+    dealText: "Half-price wine bottles, $6 beer",
+    dealSource: "curated",
+    drinks: ["wine", "champagne", "cocktails"],
+    food: ["steak frites", "escargot", "mussels"],
+    priceLevel: 3,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday"], startTime: "6:00 PM", endTime: "7:30 PM" },
+    ],
+    rating: 4.7,
+    image: "🥂",
+    lat: 30.2547,
+    lng: -97.6975
+  },
+  {
+    id: "16",
+    name: "Bangers Sausage House",
+    neighborhood: "Rainey Street",
+    address: "79 Rainey St, Austin, TX 78701",
+    cuisine: "Beer Garden",
+    dealText: "$4 Texas beers, $6 sausages, dog friendly",
+    dealSource: "curated",
+    drinks: ["craft beer", "cider", "cocktails"],
+    food: ["sausages", "giant pretzels", "loaded tots"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "3:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.3,
+    image: "🌭",
+    lat: 30.2590,
+    lng: -97.7385
+  },
+  {
+    id: "17",
+    name: "La Condesa",
+    neighborhood: "Warehouse District",
+    address: "400 W 2nd St, Austin, TX 78701",
+    cuisine: "Mexican",
+    dealText: "$7 margaritas, $5 tacos, guac & chips $5",
+    dealSource: "curated",
+    drinks: ["margaritas", "mezcal", "tequila"],
+    food: ["tacos", "ceviche", "guacamole"],
+    priceLevel: 3,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "4:00 PM", endTime: "6:30 PM" },
+    ],
+    rating: 4.4,
+    image: "🥑",
+    lat: 30.2652,
+    lng: -97.7470
+  },
+  {
+    id: "18",
+    name: "Small Victory",
+    neighborhood: "Downtown",
+    address: "108 E 7th St, Austin, TX 78701",
+    cuisine: "Wine Bar",
+    dealText: "$7 wine, $8 cocktails, cheese plate $10",
+    dealSource: "curated",
+    drinks: ["wine", "cocktails", "beer"],
+    food: ["cheese", "charcuterie", "olives"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "4:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.6,
+    image: "🍷",
+    lat: 30.2690,
+    lng: -97.7412
+  },
+  {
+    id: "19",
+    name: "Bufalina Due",
+    neighborhood: "East Austin",
+    address: "1519 E Cesar Chavez St, Austin, TX 78702",
+    cuisine: "Italian",
+    dealText: "$6 wine, $5 Peroni, $8 appetizers",
+    dealSource: "curated",
+    drinks: ["wine", "italian beer", "aperol spritz"],
+    food: ["pizza", "salads", "antipasti"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "5:00 PM", endTime: "6:30 PM" },
+    ],
+    rating: 4.6,
+    image: "🍕",
+    lat: 30.2578,
+    lng: -97.7290
+  },
+  {
+    id: "20",
+    name: "Midnight Cowboy",
+    neighborhood: "Sixth Street",
+    address: "313 E 6th St, Austin, TX 78701",
+    cuisine: "Speakeasy",
+    dealText: "$10 signature cocktails (usually $14)",
+    dealSource: "curated",
+    drinks: ["craft cocktails", "whiskey", "gin"],
+    food: ["bar snacks"],
+    priceLevel: 4,
+    schedule: [
+      { days: ["Tuesday", "Wednesday", "Thursday"], startTime: "7:00 PM", endTime: "9:00 PM" },
+    ],
+    rating: 4.8,
+    image: "🤠",
+    lat: 30.2673,
+    lng: -97.7400
+  },
+  {
+    id: "21",
+    name: "Grizzeldas",
+    neighborhood: "South Congress",
+    address: "1808 S Congress Ave, Austin, TX 78704",
+    cuisine: "Mexican",
+    dealText: "$5 frozen margs, $4 tecate, free chips",
+    dealSource: "curated",
+    drinks: ["margaritas", "beer", "tequila"],
+    food: ["tacos", "nachos", "queso"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "3:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.2,
+    image: "🍹",
+    lat: 30.2465,
+    lng: -97.7510
+  },
+  {
+    id: "22",
+    name: "Launderette",
+    neighborhood: "East Austin",
+    address: "2115 Holly St, Austin, TX 78702",
+    cuisine: "New American",
+    dealText: "$7 cocktails, $5 wine, $3 off apps",
+    dealSource: "curated",
+    drinks: ["cocktails", "wine", "beer"],
+    food: ["deviled eggs", "green chili queso", "burgers"],
+    priceLevel: 3,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "5:00 PM", endTime: "6:30 PM" },
+    ],
+    rating: 4.5,
+    image: "🧺",
+    lat: 30.2555,
+    lng: -97.7225
+  },
+  {
+    id: "23",
+    name: "Vixen's Wedding",
+    neighborhood: "East Austin",
+    address: "1813 E 6th St, Austin, TX 78702",
+    cuisine: "Mezcal Bar",
+    dealText: "$6 mezcal flights, $5 beer, free popcorn",
+    dealSource: "curated",
+    drinks: ["mezcal", "tequila", "beer"],
+    food: ["popcorn", "chips"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Wednesday", "Thursday", "Friday"], startTime: "5:00 PM", endTime: "8:00 PM" },
+    ],
+    rating: 4.4,
+    image: "🌵",
+    lat: 30.2625,
+    lng: -97.7230
+  },
+  {
+    id: "24",
+    name: "Clark's Oyster Bar",
+    neighborhood: "West Austin",
+    address: "1200 W 6th St, Austin, TX 78703",
+    cuisine: "Seafood",
+    dealText: "$1.50 oysters, $6 wine, $8 martinis",
+    dealSource: "curated",
+    drinks: ["wine", "martinis", "champagne"],
+    food: ["oysters", "shrimp", "crab"],
+    priceLevel: 3,
+    schedule: [
+      { days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "3:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.7,
+    image: "🦐",
+    lat: 30.2735,
+    lng: -97.7560
+  },
+  {
+    id: "25",
+    name: "Zilker Brewing",
+    neighborhood: "East Austin",
+    address: "1701 E 6th St, Austin, TX 78702",
+    cuisine: "Brewery",
+    dealText: "$4 pints all day Monday, $5 other days till 6",
+    dealSource: "curated",
+    drinks: ["craft beer", "cider"],
+    food: ["food trucks"],
+    priceLevel: 2,
+    schedule: [
+      { days: ["Monday"], startTime: "12:00 PM", endTime: "10:00 PM" },
+      { days: ["Tuesday", "Wednesday", "Thursday", "Friday"], startTime: "2:00 PM", endTime: "6:00 PM" },
+    ],
+    rating: 4.3,
+    image: "🍺",
+    lat: 30.2621,
+    lng: -97.7245
+  }
+];
@@ -0,0 +1,89 @@
+import type { DealCategory } from '../lib/deals';
+import { neighborhoodAliases } from './neighborhoods';
+
+// Words locals use for the same thing, grouped under the word they mean. A
+// venue that mentions any word of a group is indexed under all of them.
+// Write words singular and lower case; plurals are matched without listing.
+//
+// This is the only drink and food vocabulary: the deal parser categorizes
+// items with it, and every word counts toward the Drink Specials and Food
+// Specials filters, so add words here rather than to either of those.
+
+// Drink groups by the deal category their words count as. Categories are
+// checked in this order and the first with a matching word wins.
+export const drinkSynonyms: Record<Exclude<DealCategory, 'food'>, Record<string, string[]>> = {
+  beer: {
+    'beer': ['brew', 'brewski', 'cerveza', 'suds'],
+    'craft beer': ['ipa', 'pale ale', 'local beer', 'microbrew'],
+    'pint': ['pounder'],
+    'draft': ['draught', 'tap', 'on tap'],
+    'lager': [],
+    'ale': [],
+    'stout': [],
+    'pilsner': [],
+    'tallboy': [],
+    'lone star': [],
+    'tecate': [],
+    'peroni': [],
+  },
+  cocktail: {
+    'cocktail': ['mixed drink', 'craft cocktail'],
+    'margarita': ['marg', 'rita'],
+    'frozen drink': ['frozen', 'frozie', 'slushie'],
+    'martini': [],
+    'mimosa': [],
+    'spritz': [],
+    'old fashioned': [],
+    'mule': [],
+    'sangria': [],
+  },
+  wine: {
+    'wine': ['vino'],
+    'champagne': ['bubbles', 'bubbly', 'sparkling wine', 'prosecco', 'cava'],
+    'rosé': ['rose'],
+    'sake': [],
+  },
+  spirit: {
+    // "wells", never a bare "well": "goes well with" isn't a drink special
+    'well drink': ['wells', 'house liquor', 'rail drink'],
+    'shot': ['shooter'],
+    'whiskey': ['whisky'],
+    'bourbon': [],
+    'scotch': [],
+    'mezcal': ['mescal'],
+    'tequila': [],
+    'vodka': [],
+    'gin': [],
+    'rum': [],
+  },
+};
+
+export const foodSynonyms: Record<string, string[]> = {
+  'appetizer': ['app', 'starter', 'small plate'],
+  'food': ['eats', 'grub'],
+  'taco': [],
+  'pizza': ['slice'],
+  'wing': ['chicken wing', 'hot wing'],
+  'nacho': [],
+  'oyster': ['raw bar', 'bivalve'],
+  'burger': ['cheeseburger', 'slider'],
+  'fries': ['french fries', 'frites'],
+  'snack': ['bar snack', 'nibble', 'bite'],
+  'bao': ['bao bun', 'steamed bun', 'bun'],
+  'sausage': ['brat', 'bratwurst'],
+  'pretzel': [],
+  'queso': ['cheese dip'],
+  'guacamole': ['guac'],
+  'chip': [],
+  'popcorn': [],
+  'cheese': [],
+  'charcuterie': [],
+  'brisket': [],
+  'roll': [],
+  'plate': [],
+};
+
+// Lower-cased so they normalize the same way as drinks and food
+export const neighborhoodSynonyms: Record<string, string[]> = Object.fromEntries(
+  Object.entries(neighborhoodAliases).map(([name, aliases]) => [name.toLowerCase(), aliases]),
+);
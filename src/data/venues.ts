@@ -1,3 +1,18 @@
+import { parseDeal, type DealItem } from '../lib/deals';
+import { upgradeLegacyVenue } from './legacy';
+import { staticVenues } from './staticVenues';
+
+// Where a venue's deal text came from
+export type DealSource = 'curated' | 'user-submitted' | 'unverified';
+
+// A recurring happy hour window. `days` are the days the window starts on;
+// an endTime at or before startTime runs past midnight into the next day.
+export interface HappyHourWindow {
+  days: string[];
+  startTime: string;
+  endTime: string;
+}
+
 export interface Venue {
   id: string;
   name: string;
@@ -5,12 +20,13 @@ export interface Venue {
   address: string;
   cuisine: string;
   dealText: string;
+  dealSource: DealSource;
+  // Structured items parsed from dealText at build time
+  dealItems?: DealItem[];
   drinks: string[];
   food: string[];
   priceLevel: number;
-  days: string[];
-  startTime: string;
-  endTime: string;
+  schedule: HappyHourWindow[];
   rating: number;
   ratingsCount?: number;
   image: string;
@@ -24,7 +40,7 @@ export interface Venue {
 // Try to import generated venues from Google Places API
 // Uses Vite's glob import to handle missing file gracefully
 const generatedModules = import.meta.glob('./venues-generated.json', { eager: true }) as Record<string, { default: Venue[] }>;
-const generatedVenues: Venue[] | null = generatedModules['./venues-generated.json']?.default || null;
+const generatedVenues: Venue[] | null = generatedModules['./venues-generated.json']?.default?.map(upgradeLegacyVenue) || null;
 
 if (generatedVenues) {
   console.log(`📍 Loaded ${generatedVenues.length} venues from Google Places`);
@@ -32,412 +48,16 @@ if (generatedVenues) {
   console.log('📦 Using static venue data (no Google Places data available)');
 }
 
-// Static fallback data
-const staticVenues: Venue[] = [
-  {
-    id: "1",
-    name: "The Brewtorium",
-    neighborhood: "East Austin",
-    address: "6015 Dillard Cir, Austin, TX 78752",
-    cuisine: "Brewery",
-    dealText: "$4 pints, $6 wells, $2 off appetizers",
-    drinks: ["craft beer", "wine", "cocktails"],
-    food: ["pretzels", "nachos", "wings"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "3:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.5,
-    image: "🍺"
-  },
-  {
-    id: "2",
-    name: "Loro",
-    neighborhood: "South Lamar",
-    address: "2115 S Lamar Blvd, Austin, TX 78704",
-    cuisine: "Asian-BBQ",
-    dealText: "$5 sake, $6 beer, half-price bao buns",
-    drinks: ["sake", "beer", "whiskey"],
-    food: ["bao buns", "brisket", "smoked meats"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "4:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.7,
-    image: "🥟"
-  },
-  {
-    id: "3",
-    name: "Péché",
-    neighborhood: "Warehouse District",
-    address: "208 W 4th St, Austin, TX 78701",
-    cuisine: "French",
-    dealText: "$8 cocktails, $5 wine, oysters $1.50 each",
-    drinks: ["cocktails", "wine", "champagne"],
-    food: ["oysters", "charcuterie", "french fries"],
-    priceLevel: 3,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "4:00 PM",
-    endTime: "7:00 PM",
-    rating: 4.6,
-    image: "🦪"
-  },
-  {
-    id: "4",
-    name: "Whisler's",
-    neighborhood: "East Austin",
-    address: "1816 E 6th St, Austin, TX 78702",
-    cuisine: "Cocktail Bar",
-    dealText: "$7 classic cocktails, $4 beer",
-    drinks: ["cocktails", "mezcal", "beer"],
-    food: ["thai food upstairs"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday"],
-    startTime: "5:00 PM",
-    endTime: "7:00 PM",
-    rating: 4.8,
-    image: "🍸"
-  },
-  {
-    id: "5",
-    name: "Easy Tiger",
-    neighborhood: "Downtown",
-    address: "709 E 6th St, Austin, TX 78701",
-    cuisine: "Beer Garden",
-    dealText: "$4 drafts, $3 pretzels, $5 sausages",
-    drinks: ["craft beer", "wine"],
-    food: ["pretzels", "sausages", "baked goods"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "3:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.4,
-    image: "🥨"
-  },
-  {
-    id: "6",
-    name: "Uchi",
-    neighborhood: "South Lamar",
-    address: "801 S Lamar Blvd, Austin, TX 78704",
-    cuisine: "Japanese",
-    dealText: "$6 sake, $8 specialty rolls at the bar",
-    drinks: ["sake", "japanese whiskey", "beer"],
-    food: ["sushi", "sashimi", "tempura"],
-    priceLevel: 4,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "5:00 PM",
-    endTime: "6:30 PM",
-    rating: 4.9,
-    image: "🍣"
-  },
-  {
-    id: "7",
-    name: "Rainey Street Pub",
-    neighborhood: "Rainey Street",
-    address: "86 Rainey St, Austin, TX 78701",
-    cuisine: "Pub",
-    dealText: "$3 Lone Stars, $5 wells, free jukebox",
-    drinks: ["beer", "whiskey", "cocktails"],
-    food: ["burgers", "tacos"],
-    priceLevel: 1,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"],
-    startTime: "4:00 PM",
-    endTime: "8:00 PM",
-    rating: 4.2,
-    image: "🍻"
-  },
-  {
-    id: "8",
-    name: "Contigo",
-    neighborhood: "Mueller",
-    address: "2027 Anchor Ln, Austin, TX 78723",
-    cuisine: "Farm to Table",
-    dealText: "$6 wine, $5 draft beer, $8 snacks",
-    drinks: ["wine", "craft beer", "cocktails"],
-    food: ["deviled eggs", "fried chicken", "local cheese"],
-    priceLevel: 3,
-    days: ["Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "5:00 PM",
-    endTime: "6:30 PM",
-    rating: 4.5,
-    image: "🍗"
-  },
-  {
-    id: "9",
-    name: "Odd Duck",
-    neighborhood: "South Lamar",
-    address: "1201 S Lamar Blvd, Austin, TX 78704",
-    cuisine: "New American",
-    dealText: "$7 cocktails, half-price select plates",
-    drinks: ["cocktails", "wine", "local beer"],
-    food: ["small plates", "charcuterie", "seasonal dishes"],
-    priceLevel: 3,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "5:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.7,
-    image: "🦆"
-  },
-  {
-    id: "10",
-    name: "The Roosevelt Room",
-    neighborhood: "Downtown",
-    address: "307 W 5th St, Austin, TX 78701",
-    cuisine: "Speakeasy",
-    dealText: "$9 classic cocktails, $6 beer",
-    drinks: ["craft cocktails", "whiskey", "absinthe"],
-    food: ["bar snacks"],
-    priceLevel: 3,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday"],
-    startTime: "4:00 PM",
-    endTime: "7:00 PM",
-    rating: 4.6,
-    image: "🎩"
-  },
-  {
-    id: "11",
-    name: "Takoba",
-    neighborhood: "East Austin",
-    address: "1411 E 7th St, Austin, TX 78702",
-    cuisine: "Mexican",
-    dealText: "$5 margaritas, $3 tacos, $4 beer",
-    drinks: ["margaritas", "tequila", "beer"],
-    food: ["tacos", "queso", "guacamole"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "3:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.3,
-    image: "🌮"
-  },
-  {
-    id: "12",
-    name: "Nickel City",
-    neighborhood: "East Austin",
-    address: "1133 E 11th St, Austin, TX 78702",
-    cuisine: "Dive Bar",
-    dealText: "$2 Lone Stars, $4 wells, free pool",
-    drinks: ["beer", "whiskey", "shots"],
-    food: ["pizza next door"],
-    priceLevel: 1,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"],
-    startTime: "2:00 PM",
-    endTime: "7:00 PM",
-    rating: 4.4,
-    image: "🎱"
-  },
-  {
-    id: "13",
-    name: "Sway",
-    neighborhood: "South Lamar",
-    address: "1417 S 1st St, Austin, TX 78704",
-    cuisine: "Thai",
-    dealText: "$6 Thai beer, $8 cocktails, $5 apps",
-    drinks: ["thai beer", "cocktails", "wine"],
-    food: ["spring rolls", "satay", "curry puffs"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "4:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.5,
-    image: "🍜"
-  },
-  {
-    id: "14",
-    name: "Drink.Well",
-    neighborhood: "North Loop",
-    address: "207 E 53rd St, Austin, TX 78751",
-    cuisine: "Gastropub",
-    dealText: "$6 cocktails, $4 drafts, $2 off snacks",
-    drinks: ["craft cocktails", "craft beer", "wine"],
-    food: ["duck fat fries", "sliders", "cheese plate"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "4:00 PM",
-    endTime: "7:00 PM",
-    rating: 4.5,
-    image: "🍟"
-  },
-  {
-    id: "15",
-    name: "Justine's Brasserie",
-    neighborhood: "East Austin",
-    address: "4710 E 5th St, Austin, TX 78702",
-    cuisine: "French",
-    dealText: "Half-price wine bottles, $6 beer",
-    drinks: ["wine", "champagne", "cocktails"],
-    food: ["steak frites", "escargot", "mussels"],
-    priceLevel: 3,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday"],
-    startTime: "6:00 PM",
-    endTime: "7:30 PM",
-    rating: 4.7,
-    image: "🥂"
-  },
-  {
-    id: "16",
-    name: "Bangers Sausage House",
-    neighborhood: "Rainey Street",
-    address: "79 Rainey St, Austin, TX 78701",
-    cuisine: "Beer Garden",
-    dealText: "$4 Texas beers, $6 sausages, dog friendly",
-    drinks: ["craft beer", "cider", "cocktails"],
-    food: ["sausages", "giant pretzels", "loaded tots"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "3:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.3,
-    image: "🌭"
-  },
-  {
-    id: "17",
-    name: "La Condesa",
-    neighborhood: "Downtown",
-    address: "400 W 2nd St, Austin, TX 78701",
-    cuisine: "Mexican",
-    dealText: "$7 margaritas, $5 tacos, guac & chips $5",
-    drinks: ["margaritas", "mezcal", "tequila"],
-    food: ["tacos", "ceviche", "guacamole"],
-    priceLevel: 3,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "4:00 PM",
-    endTime: "6:30 PM",
-    rating: 4.4,
-    image: "🥑"
-  },
-  {
-    id: "18",
-    name: "Small Victory",
-    neighborhood: "East Austin",
-    address: "108 E 7th St, Austin, TX 78701",
-    cuisine: "Wine Bar",
-    dealText: "$7 wine, $8 cocktails, cheese plate $10",
-    drinks: ["wine", "cocktails", "beer"],
-    food: ["cheese", "charcuterie", "olives"],
-    priceLevel: 2,
-    days: ["Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "4:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.6,
-    image: "🍷"
-  },
-  {
-    id: "19",
-    name: "Bufalina Due",
-    neighborhood: "East Austin",
-    address: "1519 E Cesar Chavez St, Austin, TX 78702",
-    cuisine: "Italian",
-    dealText: "$6 wine, $5 Peroni, $8 appetizers",
-    drinks: ["wine", "italian beer", "aperol spritz"],
-    food: ["pizza", "salads", "antipasti"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "5:00 PM",
-    endTime: "6:30 PM",
-    rating: 4.6,
-    image: "🍕"
-  },
-  {
-    id: "20",
-    name: "Midnight Cowboy",
-    neighborhood: "Downtown",
-    address: "313 E 6th St, Austin, TX 78701",
-    cuisine: "Speakeasy",
-    dealText: "$10 signature cocktails (usually $14)",
-    drinks: ["craft cocktails", "whiskey", "gin"],
-    food: ["bar snacks"],
-    priceLevel: 4,
-    days: ["Tuesday", "Wednesday", "Thursday"],
-    startTime: "7:00 PM",
-    endTime: "9:00 PM",
-    rating: 4.8,
-    image: "🤠"
-  },
-  {
-    id: "21",
-    name: "Grizzeldas",
-    neighborhood: "South Congress",
-    address: "1808 S Congress Ave, Austin, TX 78704",
-    cuisine: "Mexican",
-    dealText: "$5 frozen margs, $4 tecate, free chips",
-    drinks: ["margaritas", "beer", "tequila"],
-    food: ["tacos", "nachos", "queso"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "3:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.2,
-    image: "🍹"
-  },
-  {
-    id: "22",
-    name: "Launderette",
-    neighborhood: "East Austin",
-    address: "2115 Holly St, Austin, TX 78702",
-    cuisine: "New American",
-    dealText: "$7 cocktails, $5 wine, $3 off apps",
-    drinks: ["cocktails", "wine", "beer"],
-    food: ["deviled eggs", "green chili queso", "burgers"],
-    priceLevel: 3,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "5:00 PM",
-    endTime: "6:30 PM",
-    rating: 4.5,
-    image: "🧺"
-  },
-  {
-    id: "23",
-    name: "Vixen's Wedding",
-    neighborhood: "East Austin",
-    address: "1813 E 6th St, Austin, TX 78702",
-    cuisine: "Mezcal Bar",
-    dealText: "$6 mezcal flights, $5 beer, free popcorn",
-    drinks: ["mezcal", "tequila", "beer"],
-    food: ["popcorn", "chips"],
-    priceLevel: 2,
-    days: ["Wednesday", "Thursday", "Friday"],
-    startTime: "5:00 PM",
-    endTime: "8:00 PM",
-    rating: 4.4,
-    image: "🌵"
-  },
-  {
-    id: "24",
-    name: "Clark's Oyster Bar",
-    neighborhood: "West Austin",
-    address: "1200 W 6th St, Austin, TX 78703",
-    cuisine: "Seafood",
-    dealText: "$1.50 oysters, $6 wine, $8 martinis",
-    drinks: ["wine", "martinis", "champagne"],
-    food: ["oysters", "shrimp", "crab"],
-    priceLevel: 3,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "3:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.7,
-    image: "🦐"
-  },
-  {
-    id: "25",
-    name: "Zilker Brewing",
-    neighborhood: "South Lamar",
-    address: "1701 E 6th St, Austin, TX 78702",
-    cuisine: "Brewery",
-    dealText: "$4 pints all day Monday, $5 other days till 6",
-    drinks: ["craft beer", "cider"],
-    food: ["food trucks"],
-    priceLevel: 2,
-    days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
-    startTime: "2:00 PM",
-    endTime: "6:00 PM",
-    rating: 4.3,
-    image: "🍺"
-  }
-];
+// Static data and builds before the deal parser don't carry deal items
+function withDealItems(venue: Venue): Venue {
+  return venue.dealItems ? venue : { ...venue, dealItems: parseDeal(venue.dealText).items };
+}
 
 // Use generated venues if available, otherwise use static data
-export const venues: Venue[] = generatedVenues || staticVenues;
+export const venues: Venue[] = (generatedVenues || staticVenues).map(withDealItems);
+
+// All happy hour times in this dataset are Austin wall-clock times
+export const venueTimeZone = 'America/Chicago';
 
 // Get unique values for filters
 export const neighborhoods = [...new Set(venues.map(v => v.neighborhood))].sort();
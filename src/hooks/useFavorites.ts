@@ -0,0 +1,9 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getFavorites, subscribeFavorites } from '../lib/favorites';
+
+export function useFavorites() {
+  const favorites = useSyncExternalStore(subscribeFavorites, getFavorites);
+  const favoriteIds = useMemo(() => new Set(favorites.map(f => f.id)), [favorites]);
+
+  return { favorites, favoriteIds };
+}
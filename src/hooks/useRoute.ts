@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+
+export type Route =
+  | { name: 'search' }
+  | { name: 'venue'; id: string };
+
+const ROUTE_CHANGE_EVENT = 'routechange';
+
+export function parseRoute(pathname: string): Route {
+  const match = pathname.match(/^\/venue\/([^/]+)\/?$/);
+  if (match) return { name: 'venue', id: decodeURIComponent(match[1]) };
+  return { name: 'search' };
+}
+
+export function venuePath(id: string): string {
+  return `/venue/${encodeURIComponent(id)}`;
+}
+
+// Push a new path, carrying over the current query string and history state
+// so the search state survives the trip to a detail page and back
+export function navigate(pathname: string) {
+  window.history.pushState({ ...window.history.state, from: window.location.pathname }, '', `${pathname}${window.location.search}`);
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+  window.scrollTo(0, 0);
+}
+
+// Go back to the results if we came from them, otherwise to the search page
+export function navigateBack() {
+  if (window.history.state?.from === '/') {
+    window.history.back();
+  } else {
+    navigate('/');
+  }
+}
+
+// Click handler for internal links: let modified clicks open a new tab
+export function handleLinkClick(e: React.MouseEvent<HTMLAnchorElement>, pathname: string) {
+  if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+  e.preventDefault();
+  navigate(pathname);
+}
+
+export function useRoute(): Route {
+  const [route, setRoute] = useState(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const update = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', update);
+    window.addEventListener(ROUTE_CHANGE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(ROUTE_CHANGE_EVENT, update);
+    };
+  }, []);
+
+  return route;
+}
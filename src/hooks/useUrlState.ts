@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import type { Filters } from './useSearch';
+import type { SearchOrigin } from '../lib/geo';
+import { parseSearchState, serializeSearchState, type SearchState } from '../lib/urlState';
+
+// What a history entry holds besides its URL: where a detail page was opened
+// from (see useRoute), and a device origin, which shared URLs leave out
+interface HistoryState {
+  from?: string;
+  origin?: SearchOrigin | null;
+}
+
+function getHistoryState(): HistoryState {
+  return window.history.state ?? {};
+}
+
+// The origin that only the history entry can hold
+function getDeviceOrigin({ filters }: SearchState): SearchOrigin | null {
+  return filters.origin?.source === 'device' ? filters.origin : null;
+}
+
+// Read the search state from the current URL and history entry
+export function readUrlState(defaults: Filters): SearchState {
+  const state = parseSearchState(window.location.search, defaults);
+  const { origin } = getHistoryState();
+  return origin && !state.filters.origin ? { ...state, filters: { ...state.filters, origin } } : state;
+}
+
+// Build a shareable link for a search state
+export function buildShareUrl(state: SearchState, defaults: Filters): string {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${serializeSearchState(state, defaults)}`;
+}
+
+// Query edits are written once typing pauses: Safari throws a SecurityError
+// after 100 history.replaceState calls in 10 seconds
+const QUERY_WRITE_DELAY_MS = 300;
+
+// Keep the URL in sync with query and filters. Filter changes push a history
+// entry so back/forward steps through them; query edits replace the current one.
+export function useUrlState(
+  state: SearchState,
+  defaults: Filters,
+  onNavigate: (state: SearchState) => void,
+) {
+  const lastFiltersRef = useRef(state.filters);
+  const onNavigateRef = useRef(onNavigate);
+  onNavigateRef.current = onNavigate;
+
+  useEffect(() => {
+    const filtersChanged = lastFiltersRef.current !== state.filters;
+    lastFiltersRef.current = state.filters;
+
+    const write = () => {
+      const search = serializeSearchState(state, defaults);
+      const origin = getDeviceOrigin(state);
+      const current = getHistoryState();
+      if (search === window.location.search && JSON.stringify(origin) === JSON.stringify(current.origin ?? null)) return;
+
+      const url = `${window.location.pathname}${search}${window.location.hash}`;
+      if (filtersChanged) {
+        window.history.pushState({ origin }, '', url);
+      } else {
+        // Keep the rest of the entry's state, such as where it was opened from
+        window.history.replaceState({ ...current, origin }, '', url);
+      }
+    };
+
+    // A filter change writes straight away, taking any pending query edit with it
+    if (filtersChanged) {
+      write();
+      return;
+    }
+    const timer = setTimeout(write, QUERY_WRITE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state.query, state.filters, defaults]);
+
+  // Restore state on back/forward
+  useEffect(() => {
+    const handlePopState = () => onNavigateRef.current(readUrlState(defaults));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [defaults]);
+}
@@ -0,0 +1,47 @@
+// Source of the current instant. Swap in a fixed clock to evaluate
+// happy hours at a specific moment (tests, DST edge cases).
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+// Always returns the same instant
+export function fixedClock(instant: Date | string | number): Clock {
+  const fixed = new Date(instant);
+  return () => new Date(fixed);
+}
+
+// Wall-clock day and time at an instant in a given IANA time zone
+export interface ZonedTime {
+  day: string;
+  minutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Convert an instant to the day name and minutes since midnight in a time zone.
+// Intl applies the zone's DST rules, so this is correct across transitions.
+export function getZonedTime(instant: Date, timeZone: string): ZonedTime {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '0';
+
+  // Some engines report midnight as hour 24 even with h23
+  const hours = parseInt(part('hour'), 10) % 24;
+  const minutes = parseInt(part('minute'), 10);
+
+  return { day: part('weekday'), minutes: hours * 60 + minutes };
+}
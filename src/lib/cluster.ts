@@ -0,0 +1,50 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface Cluster<T> extends LatLng {
+  items: T[];
+}
+
+const TILE_SIZE = 256;
+
+// Web Mercator projection to world pixel coordinates at a zoom level
+function project({ lat, lng }: LatLng, zoom: number): [number, number] {
+  const worldSize = TILE_SIZE * Math.pow(2, zoom);
+  const sinLat = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  const x = ((lng + 180) / 360) * worldSize;
+  const y = (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * worldSize;
+  return [x, y];
+}
+
+// Group points that fall in the same screen-space grid cell at this zoom.
+// Cheap enough to rerun on every zoom for a few hundred venues.
+export function clusterPoints<T>(
+  items: T[],
+  getPoint: (item: T) => LatLng,
+  zoom: number,
+  cellSizePx: number = 60,
+): Cluster<T>[] {
+  const cells = new Map<string, T[]>();
+
+  for (const item of items) {
+    const [x, y] = project(getPoint(item), zoom);
+    const key = `${Math.floor(x / cellSizePx)}:${Math.floor(y / cellSizePx)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(item);
+    } else {
+      cells.set(key, [item]);
+    }
+  }
+
+  return Array.from(cells.values()).map(cellItems => {
+    const points = cellItems.map(getPoint);
+    return {
+      lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+      lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+      items: cellItems,
+    };
+  });
+}
@@ -0,0 +1,120 @@
+import { drinkSynonyms, foodSynonyms } from '../data/synonyms';
+import type { Venue } from '../data/venues';
+import { WORD_END, WORD_START } from './synonyms';
+
+export type DealCategory = 'beer' | 'wine' | 'cocktail' | 'spirit' | 'food';
+
+// Discounts that aren't a fixed price
+export type DealDiscount = 'percent-off' | 'half-price' | 'dollars-off';
+
+// One item from a venue's deal text, e.g. "$4 pints" or "$2 off appetizers".
+// An item has either a price or a discount.
+export interface DealItem {
+  category: DealCategory;
+  item: string;
+  price?: number;
+  discount?: DealDiscount;
+  // Percent or dollars off, for percent-off and dollars-off
+  amount?: number;
+}
+
+export interface ParsedDeal {
+  items: DealItem[];
+  // Fragments that didn't read as a priced or discounted item
+  unparsed: string[];
+}
+
+export const DRINK_CATEGORIES: DealCategory[] = ['beer', 'wine', 'cocktail', 'spirit'];
+
+// Every word of the synonym dictionary, by category, in the dictionary's order
+const CATEGORY_WORDS: [DealCategory, string[]][] = [
+  ...Object.entries(drinkSynonyms).map(([category, groups]): [DealCategory, string[]] =>
+    [category as DealCategory, Object.entries(groups).flat(2)]),
+  ['food', Object.entries(foodSynonyms).flat(2)],
+];
+
+// Qualifiers that say when or how, not what: "each", "at the bar", "(usually $14)"
+const QUALIFIERS = [
+  /\s*\([^)]*\)/g,
+  /\s+each$/i,
+  /\s+at the bar$/i,
+  /\s+all day(\s+\w+)?$/i,
+  /\s+(till|until)\s+\d{1,2}(:\d{2})?\s*(am|pm)?$/i,
+];
+
+const PRICE = String.raw`\$(\d+(?:\.\d{1,2})?)`;
+
+const PATTERNS: [RegExp, (match: RegExpMatchArray) => Omit<DealItem, 'category'>][] = [
+  [new RegExp(String.raw`^${PRICE}\s+off\s+(.+)$`, 'i'), m => ({ item: m[2], discount: 'dollars-off', amount: Number(m[1]) })],
+  [/^(\d{1,3})%\s+off\s+(.+)$/i, m => ({ item: m[2], discount: 'percent-off', amount: Number(m[1]) })],
+  [/^half[- ](?:price|off)\s+(.+)$/i, m => ({ item: m[1], discount: 'half-price' })],
+  [/^(.+?)\s+half[- ](?:price|off)$/i, m => ({ item: m[1], discount: 'half-price' })],
+  [new RegExp(String.raw`^${PRICE}\s+(.+)$`, 'i'), m => ({ item: m[2], price: Number(m[1]) })],
+  [new RegExp(String.raw`^(.+?)\s+${PRICE}$`, 'i'), m => ({ item: m[1], price: Number(m[2]) })],
+  [/^free\s+(.+)$/i, m => ({ item: m[1], price: 0 })],
+];
+
+function matchesWord(text: string, word: string): boolean {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(String.raw`${WORD_START}${escaped}s?${WORD_END}`, 'iu').test(text);
+}
+
+// Category of an item name, or null if it isn't a drink or food we know
+export function categorize(item: string): DealCategory | null {
+  for (const [category, words] of CATEGORY_WORDS) {
+    if (words.some(word => matchesWord(item, word))) return category;
+  }
+  return null;
+}
+
+function parseFragment(fragment: string): DealItem | null {
+  const text = QUALIFIERS.reduce((t, pattern) => t.replace(pattern, ''), fragment).trim();
+
+  for (const [pattern, toItem] of PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    const parsed = toItem(match);
+    const item = parsed.item.replace(/^(select|all)\s+/i, '').trim();
+    const category = categorize(item);
+    return category ? { ...parsed, item, category } : null;
+  }
+  return null;
+}
+
+// "$4 pints, $6 wells, $2 off appetizers" -> one item per fragment
+export function parseDeal(dealText: string): ParsedDeal {
+  const items: DealItem[] = [];
+  const unparsed: string[] = [];
+
+  for (const fragment of dealText.split(/[,;]/).map(f => f.trim()).filter(Boolean)) {
+    const item = parseFragment(fragment);
+    if (item) items.push(item);
+    else unparsed.push(fragment);
+  }
+
+  return { items, unparsed };
+}
+
+export function isDrinkItem(item: DealItem): boolean {
+  return DRINK_CATEGORIES.includes(item.category);
+}
+
+// Parsed at build time; parsed here for data that predates it
+export function getDealItems(venue: Venue): DealItem[] {
+  return venue.dealItems ?? parseDeal(venue.dealText).items;
+}
+
+// Whether an item matches a category ("beer") or an item name ("oysters")
+export function matchesDealTerm(item: DealItem, term: string): boolean {
+  const t = term.trim().toLowerCase().replace(/s$/, '');
+  return item.category === t || matchesWord(item.item, t);
+}
+
+// Cheapest fixed price among items matching the term, if any
+export function getCheapestPrice(venue: Venue, matches: (item: DealItem) => boolean): number | null {
+  const prices = getDealItems(venue)
+    .filter(item => item.price !== undefined && matches(item))
+    .map(item => item.price!);
+  return prices.length > 0 ? Math.min(...prices) : null;
+}
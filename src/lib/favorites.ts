@@ -0,0 +1,97 @@
+// Starred venues, persisted in localStorage. Each entry keeps the venue's name
+// so favorites that drop out of a later dataset can still be shown.
+export interface FavoriteEntry {
+  id: string;
+  name: string;
+  savedAt: string;
+}
+
+const STORAGE_KEY = 'atx_favorites';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let favorites: FavoriteEntry[] = load();
+
+function isFavoriteEntry(value: unknown): value is FavoriteEntry {
+  const entry = value as FavoriteEntry;
+  return typeof entry === 'object' && entry !== null &&
+    typeof entry.id === 'string' && typeof entry.name === 'string';
+}
+
+function load(): FavoriteEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(isFavoriteEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(next: FavoriteEntry[]) {
+  favorites = next;
+  // Private browsing or a full quota: keep the change for this visit only
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.warn('⚠️ Could not save favorites:', err);
+  }
+  listeners.forEach(listener => listener());
+}
+
+// Pick up changes made in other tabs
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== STORAGE_KEY) return;
+    favorites = load();
+    listeners.forEach(listener => listener());
+  });
+}
+
+export function subscribeFavorites(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getFavorites(): FavoriteEntry[] {
+  return favorites;
+}
+
+export function toggleFavorite(venue: { id: string; name: string }) {
+  if (favorites.some(f => f.id === venue.id)) {
+    save(favorites.filter(f => f.id !== venue.id));
+  } else {
+    save([...favorites, { id: venue.id, name: venue.name, savedAt: new Date().toISOString() }]);
+  }
+}
+
+export function removeFavorite(id: string) {
+  save(favorites.filter(f => f.id !== id));
+}
+
+export function exportFavorites(): string {
+  return JSON.stringify({ version: 1, favorites }, null, 2);
+}
+
+// Merge favorites from an exported file. Returns how many were new.
+// Throws if the file isn't a favorites export.
+export function importFavorites(json: string): number {
+  const parsed = JSON.parse(json);
+  const entries: unknown = Array.isArray(parsed) ? parsed : parsed?.favorites;
+  if (!Array.isArray(entries)) {
+    throw new Error('Not a favorites export');
+  }
+
+  const known = new Set(favorites.map(f => f.id));
+  const added: FavoriteEntry[] = [];
+  for (const entry of entries.filter(isFavoriteEntry)) {
+    if (known.has(entry.id)) continue;
+    known.add(entry.id);
+    added.push({ id: entry.id, name: entry.name, savedAt: entry.savedAt || new Date().toISOString() });
+  }
+
+  if (added.length > 0) {
+    save([...favorites, ...added]);
+  }
+  return added.length;
+}
@@ -0,0 +1,272 @@
+import type { Venue } from '../data/venues';
+import type { ZonedTime } from './clock';
+import { getCheapestPrice, getDealItems, isDrinkItem, matchesDealTerm } from './deals';
+import { distanceMiles, getVenueLocation, type SearchOrigin } from './geo';
+import { isLiveAt, startsWithin, hasHappyHourOn } from './schedule';
+import { mentionsDrink, mentionsFood } from './synonyms';
+
+// Multi-select filters match any of their values (OR); different filters
+// must all match (AND)
+export interface Filters {
+  neighborhoods: string[];
+  cuisines: string[];
+  days: string[];
+  maxPrice: number | null;
+  timeFilter: 'all' | 'live' | 'soon' | 'day';
+  plannedAt: ZonedTime | null;
+  soonWithinMinutes: number;
+  dealType: 'all' | 'drinks' | 'food';
+  verifiedOnly: boolean;
+  origin: SearchOrigin | null;
+  maxDistance: number | null;
+  sortBy: 'relevance' | 'distance' | 'cheapest-drink';
+  favoritesOnly: boolean;
+  // A deal item at or under a price: a category ("beer") or an item name ("oysters")
+  dealPrice: DealPriceFilter | null;
+}
+
+export interface DealPriceFilter {
+  item: string;
+  maxPrice: number;
+}
+
+export const defaultFilters: Filters = {
+  neighborhoods: [],
+  cuisines: [],
+  days: [],
+  maxPrice: null,
+  timeFilter: 'all',
+  plannedAt: null,
+  soonWithinMinutes: 120,
+  dealType: 'all',
+  verifiedOnly: false,
+  origin: null,
+  maxDistance: null,
+  sortBy: 'relevance',
+  favoritesOnly: false,
+  dealPrice: null,
+};
+
+// What predicates need beyond the venue and the filter values
+export interface FilterContext {
+  moment: ZonedTime;
+  favoriteIds: ReadonlySet<string>;
+}
+
+// Orama `where` clauses, keyed by schema property
+export type WhereClause = Record<string, unknown>;
+
+interface FilterDefinition<K extends keyof Filters> {
+  isActive(value: Filters[K], filters: Filters): boolean;
+  matches(venue: Venue, value: Filters[K], filters: Filters, context: FilterContext): boolean;
+  // For filters the index can evaluate itself. Orama matches string clauses
+  // by token ('East Austin' also hits 'West Austin'), so these only narrow
+  // the candidates and `matches` still has the final say.
+  where?(value: Filters[K], filters: Filters): WhereClause | undefined;
+}
+
+// Filters whose chips show how many results each choice would give
+export type FacetKey = 'neighborhoods' | 'cuisines' | 'days' | 'maxPrice' | 'dealType' | 'verifiedOnly';
+
+// Result counts for each chip, keyed by facetValueKey of the chip's value
+export type FacetCounts = Record<FacetKey, Record<string, number>>;
+
+// A filter that applies to the current values, ready to run
+export interface ActiveFilter {
+  key: keyof Filters;
+  matches(venue: Venue, context: FilterContext): boolean;
+  where?: WhereClause;
+}
+
+// Check if venue is in happy hour at the given moment
+export function isHappeningAt(venue: Venue, moment: ZonedTime): boolean {
+  return isLiveAt(venue, moment.day, moment.minutes);
+}
+
+// Check if venue happy hour starts after the given moment, within the horizon
+export function isStartingSoon(venue: Venue, moment: ZonedTime, horizonMinutes: number): boolean {
+  return startsWithin(venue, moment.day, moment.minutes, horizonMinutes);
+}
+
+// Check if venue has happy hour on the moment's day
+export function isHappeningOnDay(venue: Venue, moment: ZonedTime): boolean {
+  return hasHappyHourOn(venue, moment.day);
+}
+
+// Distance in miles from the search origin, or null if either is unknown
+export function getDistance(venue: Venue, origin: SearchOrigin | null): number | null {
+  const location = getVenueLocation(venue);
+  if (!origin || !location) return null;
+  return distanceMiles(origin, location);
+}
+
+// Check if venue is within the radius of the search origin
+export function isWithinDistance(venue: Venue, origin: SearchOrigin, maxDistance: number): boolean {
+  const distance = getDistance(venue, origin);
+  return distance !== null && distance <= maxDistance;
+}
+
+// Check if venue's deal came from a trusted source
+export function hasVerifiedDeal(venue: Venue): boolean {
+  return venue.dealSource !== 'unverified';
+}
+
+// Cheapest priced drink on the venue's deal, or null if none has a price
+export function getCheapestDrink(venue: Venue): number | null {
+  return getCheapestPrice(venue, isDrinkItem);
+}
+
+// Check if venue has a deal item matching the term at or under the price
+export function hasDealUnder(venue: Venue, { item, maxPrice }: DealPriceFilter): boolean {
+  const cheapest = getCheapestPrice(venue, dealItem => matchesDealTerm(dealItem, item));
+  return cheapest !== null && cheapest <= maxPrice;
+}
+
+// Check if a verified deal has drink items, falling back to the synonym
+// dictionary's drink words for text the deal parser couldn't read.
+// Unverified venues have no known specials at all.
+export function hasDrinkSpecials(venue: Venue): boolean {
+  if (!hasVerifiedDeal(venue)) return false;
+  if (getDealItems(venue).some(isDrinkItem)) return true;
+  return mentionsDrink(venue.dealText) || venue.drinks.length > 0;
+}
+
+// Check if a verified deal has food items, with the same fallback to food words
+export function hasFoodSpecials(venue: Venue): boolean {
+  if (!hasVerifiedDeal(venue)) return false;
+  if (getDealItems(venue).some(item => item.category === 'food')) return true;
+  return mentionsFood(venue.dealText) || venue.food.length > 0;
+}
+
+// Every Filters key, so adding one without deciding how it filters won't
+// compile. Keys set to null are parameters read by other filters or the sort.
+const filterRegistry: { [K in keyof Filters]: FilterDefinition<K> | null } = {
+  neighborhoods: {
+    isActive: value => value.length > 0,
+    matches: (venue, value) => value.includes(venue.neighborhood),
+    where: value => ({ neighborhood: value }),
+  },
+  cuisines: {
+    isActive: value => value.length > 0,
+    matches: (venue, value) => value.includes(venue.cuisine),
+    where: value => ({ cuisine: value }),
+  },
+  days: {
+    isActive: value => value.length > 0,
+    matches: (venue, value) => value.some(day => hasHappyHourOn(venue, day)),
+    // A list on a string[] property matches documents with any of them in
+    // Orama, the same any-day meaning as matches
+    where: value => ({ days: value }),
+  },
+  maxPrice: {
+    isActive: value => value !== null,
+    matches: (venue, value) => venue.priceLevel <= value!,
+    where: value => ({ priceLevel: { lte: value } }),
+  },
+  timeFilter: {
+    isActive: value => value !== 'all',
+    matches: (venue, value, filters, { moment }) => {
+      if (value === 'live') return isHappeningAt(venue, moment);
+      if (value === 'soon') return isHappeningAt(venue, moment) || isStartingSoon(venue, moment, filters.soonWithinMinutes);
+      return isHappeningOnDay(venue, moment);
+    },
+  },
+  dealType: {
+    isActive: value => value !== 'all',
+    matches: (venue, value) => value === 'drinks' ? hasDrinkSpecials(venue) : hasFoodSpecials(venue),
+  },
+  verifiedOnly: {
+    isActive: value => value,
+    matches: venue => hasVerifiedDeal(venue),
+  },
+  maxDistance: {
+    isActive: (value, filters) => value !== null && filters.origin !== null,
+    matches: (venue, value, filters) => isWithinDistance(venue, filters.origin!, value!),
+    where: (value, filters) => ({
+      location: {
+        radius: {
+          coordinates: { lat: filters.origin!.lat, lon: filters.origin!.lng },
+          value,
+          unit: 'mi',
+          inside: true,
+        },
+      },
+    }),
+  },
+  favoritesOnly: {
+    isActive: value => value,
+    matches: (venue, _value, _filters, { favoriteIds }) => favoriteIds.has(venue.id),
+  },
+  dealPrice: {
+    isActive: value => value !== null,
+    matches: (venue, value) => hasDealUnder(venue, value!),
+  },
+  // Folded into FilterContext.moment by the caller
+  plannedAt: null,
+  // Read by timeFilter
+  soonWithinMinutes: null,
+  // Read by maxDistance and the distance sort
+  origin: null,
+  // Applied when ranking results
+  sortBy: null,
+};
+
+function bindFilter<K extends keyof Filters>(key: K, filters: Filters): ActiveFilter | null {
+  const definition: FilterDefinition<K> | null = filterRegistry[key];
+  const value = filters[key];
+  if (!definition || !definition.isActive(value, filters)) return null;
+
+  return {
+    key,
+    matches: (venue, context) => definition.matches(venue, value, filters, context),
+    where: definition.where?.(value, filters),
+  };
+}
+
+// The registered filters that apply to these values
+export function getActiveFilters(filters: Filters): ActiveFilter[] {
+  return (Object.keys(filterRegistry) as (keyof Filters)[]).flatMap(key => {
+    const active = bindFilter(key, filters);
+    return active ? [active] : [];
+  });
+}
+
+// Combined where clause for the filters the index can narrow by, if any
+export function buildWhereClause(active: ActiveFilter[]): WhereClause | undefined {
+  const clauses = active.flatMap(filter => filter.where ? [filter.where] : []);
+  return clauses.length > 0 ? Object.assign({}, ...clauses) : undefined;
+}
+
+export function applyFilters(venues: Venue[], active: ActiveFilter[], context: FilterContext): Venue[] {
+  return venues.filter(venue => active.every(filter => filter.matches(venue, context)));
+}
+
+// Key a chip's value is counted under; 'all' for the value that turns the filter off
+export function facetValueKey(value: unknown): string {
+  return value === null || (Array.isArray(value) && value.length === 0) ? 'all' : String(value);
+}
+
+// Add a value to a multi-select filter, or remove it if already selected
+export function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+// How many venues each value of one filter would leave, with every other
+// active filter applied as it is. Multi-select chips count their value on
+// its own, e.g. neighborhoods: [['East Austin'], ['Mueller']].
+export function countFacet<K extends keyof Filters>(
+  venues: Venue[],
+  key: K,
+  values: Filters[K][],
+  filters: Filters,
+  context: FilterContext,
+): Record<string, number> {
+  const others = getActiveFilters(filters).filter(filter => filter.key !== key);
+  const base = applyFilters(venues, others, context);
+
+  return Object.fromEntries(values.map(value => {
+    const filter = bindFilter(key, { ...filters, [key]: value });
+    const count = filter ? base.filter(venue => filter.matches(venue, context)).length : base.length;
+    return [facetValueKey(value), count];
+  }));
+}
@@ -0,0 +1,40 @@
+import type { Venue } from '../data/venues';
+import { neighborhoodCentroids } from '../data/neighborhoods';
+import type { LatLng } from './cluster';
+
+// Where distances are measured from
+export interface SearchOrigin extends LatLng {
+  label: string;
+  source: 'device' | 'picked' | 'neighborhood';
+}
+
+export interface VenueLocation extends LatLng {
+  // True when placed at its neighborhood's centre rather than its own coordinates
+  approximate: boolean;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Great-circle distance in miles
+export function distanceMiles(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+// Venue coordinates, falling back to the neighborhood centroid
+export function getVenueLocation(venue: Venue): VenueLocation | null {
+  if (typeof venue.lat === 'number' && typeof venue.lng === 'number') {
+    return { lat: venue.lat, lng: venue.lng, approximate: false };
+  }
+  const centroid = neighborhoodCentroids[venue.neighborhood];
+  return centroid ? { ...centroid, approximate: true } : null;
+}
+
+// 0.42 -> "0.4 mi", 12.3 -> "12 mi"; approximate distances get a "~"
+export function formatDistance(miles: number, approximate: boolean = false): string {
+  const value = miles < 10 ? miles.toFixed(1) : Math.round(miles).toString();
+  return `${approximate ? '~' : ''}${value} mi`;
+}
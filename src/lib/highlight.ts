@@ -0,0 +1,12 @@
+// Words as highlighting sees them: letters and digits, with inner
+// apostrophes and hyphens ("Vixen's", "half-price")
+const WORD = /([\p{L}\p{N}](?:[\p{L}\p{N}'’_-]*[\p{L}\p{N}])?)/u;
+
+// Text split into alternating separators and words; words are at odd indexes
+export function splitWords(text: string): string[] {
+  return text.split(WORD);
+}
+
+export function highlightKey(word: string): string {
+  return word.toLocaleLowerCase();
+}
@@ -0,0 +1,30 @@
+import type { Venue } from '../data/venues';
+import { createSearchEngine, type SearchEngine } from './searchEngine';
+import { loadSnapshot, type SearchIndex, type SearchIndexSnapshot } from './searchIndex';
+import type { IndexSource } from './searchProtocol';
+
+// Written by `npm run build-index`; loaded lazily so it doesn't block first paint
+const snapshotModules = import.meta.glob<SearchIndexSnapshot>('../data/search-index.json', { import: 'default' });
+
+// Load the prebuilt index if there is one and it matches the venues we're
+// showing, otherwise null so the caller indexes in the browser
+async function loadPrebuiltIndex(venues: Venue[]): Promise<SearchIndex | null> {
+  const loadModule = snapshotModules['../data/search-index.json'];
+  if (!loadModule) return null;
+
+  try {
+    const db = await loadSnapshot(await loadModule(), venues);
+    if (!db) console.warn('⚠️ Prebuilt search index is out of date, rebuilding in the browser');
+    return db;
+  } catch (err) {
+    console.warn('⚠️ Could not load prebuilt search index, rebuilding in the browser:', err);
+    return null;
+  }
+}
+
+// Start a search engine for the venues, from the prebuilt index when possible
+export async function loadSearchEngine(venues: Venue[]): Promise<{ engine: SearchEngine; source: IndexSource }> {
+  const prebuilt = await loadPrebuiltIndex(venues);
+  const engine = await createSearchEngine(venues, prebuilt || undefined);
+  return { engine, source: prebuilt ? 'prebuilt' : 'built' };
+}
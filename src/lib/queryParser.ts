@@ -0,0 +1,155 @@
+import { neighborhoodAliases } from '../data/neighborhoods';
+import { categorize } from './deals';
+import { defaultFilters, type Filters } from './filters';
+import { WEEKDAYS } from './schedule';
+
+// A phrase from the query that was read as a filter
+export interface QueryToken {
+  // As typed, so the chip can take it back out of the query
+  text: string;
+  // Where it was found in the query: text is query.slice(start, end)
+  start: number;
+  end: number;
+  label: string;
+  filters: Partial<Filters>;
+}
+
+export interface ParsedQuery {
+  // What's left for full-text search
+  text: string;
+  // In the order they appear in the query
+  tokens: QueryToken[];
+}
+
+type Interpretation = Omit<QueryToken, 'text' | 'start' | 'end'>;
+
+interface QueryRule {
+  pattern: RegExp;
+  // null leaves the phrase in the text
+  read(match: RegExpExecArray): Interpretation | null;
+}
+
+const CHEAP_MAX_PRICE = 2;
+
+// Phrases that join or pad the filter words: "tacos in soco on friday"
+const FILLERS = /\b(happy hours?|deals?|specials?|in|on|at|near|around|the|this|for|and|with)\b/gi;
+
+function phrase(words: string[]): string {
+  return [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'))
+    .join('|');
+}
+
+function rule(words: string[], read: QueryRule['read']): QueryRule {
+  return { pattern: new RegExp(String.raw`\b(?:${phrase(words)})\b`, 'gi'), read };
+}
+
+function dayToken(days: string[], label: string): Interpretation {
+  return { label: `📅 ${label}`, filters: { days } };
+}
+
+const neighborhoodWords = Object.entries(neighborhoodAliases).flatMap(([name, aliases]) =>
+  [name, ...aliases].map(word => [word.toLowerCase(), name] as const),
+);
+const neighborhoodByWord = new Map(neighborhoodWords);
+
+// Checked in order; longer phrases first where they overlap
+const RULES: QueryRule[] = [
+  // "beer under $4", "wine less than $6"
+  {
+    pattern: /\b([a-z]+)\s+(?:under|below|less than|<=?)\s*\$(\d+(?:\.\d{1,2})?)/gi,
+    read: match => {
+      const item = match[1].toLowerCase();
+      if (!categorize(item)) return null;
+      const maxPrice = Number(match[2]);
+      return { label: `💲 ${item} ≤ $${maxPrice}`, filters: { dealPrice: { item, maxPrice } } };
+    },
+  },
+  rule(['right now', 'open now', 'happening now', 'live now', 'now'], () => ({ label: '🟢 Live now', filters: { timeFilter: 'live' } })),
+  rule(['starting soon', 'soon', 'later'], () => ({ label: '⏰ Live or starting soon', filters: { timeFilter: 'soon' } })),
+  rule(['today', 'tonight'], () => ({ label: '📅 Today', filters: { timeFilter: 'day' } })),
+  rule(['weekends', 'weekend'], () => dayToken(['Saturday', 'Sunday'], 'Weekend')),
+  rule(['weekdays'], () => dayToken(WEEKDAYS.slice(1, 6), 'Weekdays')),
+  ...WEEKDAYS.map(day => rule([`${day}s`, day], () => dayToken([day], day))),
+  rule(neighborhoodWords.map(([word]) => word), match => {
+    const name = neighborhoodByWord.get(match[0].toLowerCase().replace(/\s+/g, ' '))!;
+    return { label: `📍 ${name}`, filters: { neighborhoods: [name] } };
+  }),
+  rule(['cheap', 'cheapest', 'inexpensive', 'budget', 'affordable'], () => ({
+    label: `💲 Cheap (${'$'.repeat(CHEAP_MAX_PRICE)} or less)`,
+    filters: { maxPrice: CHEAP_MAX_PRICE },
+  })),
+  // "$" through "$$$$" on their own, not "$4"
+  {
+    pattern: /(?<![\w$])\${1,4}(?![\w$])/g,
+    read: match => ({ label: `💲 ${match[0]} or less`, filters: { maxPrice: match[0].length } }),
+  },
+  rule(['drinks', 'drink', 'booze'], () => ({ label: '🍸 Drink specials', filters: { dealType: 'drinks' } })),
+  rule(['food', 'eats', 'bites'], () => ({ label: '🍔 Food specials', filters: { dealType: 'food' } })),
+];
+
+// Pull time, day, neighborhood, price and deal type words out of a query,
+// leaving the rest for full-text search: "cheap tacos east side now"
+// -> "tacos" with $$ or less, East Austin, live now
+export function parseQuery(query: string): ParsedQuery {
+  const found: QueryToken[] = [];
+  let rest = query;
+
+  for (const { pattern, read } of RULES) {
+    rest = rest.replace(pattern, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpExecArray;
+      const index = args[args.length - 2] as number;
+      const interpretation = read(match);
+      if (!interpretation) return match[0];
+
+      found.push({ ...interpretation, text: match[0], start: index, end: index + match[0].length });
+      // Same length, so later matches still index into the query as typed
+      return ' '.repeat(match[0].length);
+    });
+  }
+
+  if (found.length === 0) return { text: query.trim(), tokens: [] };
+
+  return {
+    text: rest.replace(FILLERS, ' ').replace(/\s+/g, ' ').trim(),
+    tokens: found.sort((a, b) => a.start - b.start),
+  };
+}
+
+// The query with one interpreted phrase taken out, from where it was parsed.
+// Chips come from the debounced query, so if typing has since moved the
+// phrase, the first whole-word match is taken out instead.
+export function removeQueryToken(query: string, token: QueryToken): string {
+  let { start, end } = token;
+  if (query.slice(start, end) !== token.text) {
+    const match = new RegExp(String.raw`(?<![\w$])(?:${phrase([token.text])})(?![\w$])`, 'i').exec(query);
+    if (!match) return query;
+    start = match.index;
+    end = start + match[0].length;
+  }
+  return (query.slice(0, start) + query.slice(end)).replace(/\s+/g, ' ').trim();
+}
+
+// Filters with the query's phrases applied. Multi-select values are added
+// to what's selected; anything else only fills a filter still at its default,
+// so a chip the user picked wins over a word in the query.
+export function applyQueryFilters(filters: Filters, tokens: QueryToken[]): Filters {
+  const applied = { ...filters };
+
+  for (const token of tokens) {
+    for (const key of Object.keys(token.filters) as (keyof Filters)[]) {
+      setFromQuery(applied, filters, key, token.filters[key] as Filters[typeof key]);
+    }
+  }
+  return applied;
+}
+
+function setFromQuery<K extends keyof Filters>(applied: Filters, selected: Filters, key: K, value: Filters[K]) {
+  const current = applied[key];
+  if (Array.isArray(current) && Array.isArray(value)) {
+    applied[key] = [...new Set([...current, ...value])] as Filters[K];
+  } else if (selected[key] === defaultFilters[key]) {
+    applied[key] = value;
+  }
+}
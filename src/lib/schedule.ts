@@ -0,0 +1,132 @@
+import type { HappyHourWindow, Venue } from '../data/venues';
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Display order for schedules
+export const MONDAY_FIRST = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Parse time string like "3:00 PM" to minutes since midnight
+export function parseTimeToMinutes(timeStr: string): number {
+  const match = timeStr.match(/(\d+):(\d+)\s*(AM|PM)/i);
+  if (!match) return 0;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const isPM = match[3].toUpperCase() === 'PM';
+
+  if (isPM && hours !== 12) hours += 12;
+  if (!isPM && hours === 12) hours = 0;
+
+  return hours * 60 + minutes;
+}
+
+// Minutes since midnight to time string like "5:30 PM"
+export function formatMinutes(minutes: number): string {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  const mins = normalized % 60;
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(mins).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+}
+
+// Window as [start, end] minutes from midnight of the day it starts on.
+// End is pushed past 1440 when the window crosses midnight.
+function getWindowRange(window: HappyHourWindow): [number, number] {
+  const start = parseTimeToMinutes(window.startTime);
+  let end = parseTimeToMinutes(window.endTime);
+  if (end <= start) end += MINUTES_PER_DAY;
+  return [start, end];
+}
+
+function getPreviousDay(day: string): string {
+  return WEEKDAYS[(WEEKDAYS.indexOf(day) + 6) % 7];
+}
+
+function getNextDay(day: string): string {
+  return WEEKDAYS[(WEEKDAYS.indexOf(day) + 1) % 7];
+}
+
+// Check if any window is running at the given day and time,
+// including windows that started the previous evening
+export function isLiveAt(venue: Venue, day: string, minutes: number): boolean {
+  const yesterday = getPreviousDay(day);
+
+  return venue.schedule.some(window => {
+    const [start, end] = getWindowRange(window);
+    if (window.days.includes(day) && minutes >= start && minutes < end) return true;
+    return window.days.includes(yesterday) && minutes < end - MINUTES_PER_DAY;
+  });
+}
+
+// Check if a window starts after the given time and within the horizon,
+// looking into tomorrow when the horizon crosses midnight
+export function startsWithin(venue: Venue, day: string, minutes: number, horizonMinutes: number): boolean {
+  const tomorrow = getNextDay(day);
+
+  return venue.schedule.some(window => {
+    const [start] = getWindowRange(window);
+    if (window.days.includes(day) && start > minutes && start <= minutes + horizonMinutes) return true;
+    return window.days.includes(tomorrow) && start + MINUTES_PER_DAY <= minutes + horizonMinutes;
+  });
+}
+
+export interface UpcomingWindow {
+  day: string;
+  minutes: number;
+  window: HappyHourWindow;
+  // Minutes from the reference time until the window starts
+  minutesUntil: number;
+}
+
+// Next window to start strictly after the given day and time, searching a full week ahead
+export function getNextWindowStart(venue: Venue, day: string, minutes: number): UpcomingWindow | null {
+  const dayIndex = WEEKDAYS.indexOf(day);
+  let next: UpcomingWindow | null = null;
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidateDay = WEEKDAYS[(dayIndex + offset) % 7];
+    for (const window of venue.schedule) {
+      if (!window.days.includes(candidateDay)) continue;
+
+      const [start] = getWindowRange(window);
+      const minutesUntil = offset * MINUTES_PER_DAY + start - minutes;
+      if (minutesUntil > 0 && (!next || minutesUntil < next.minutesUntil)) {
+        next = { day: candidateDay, minutes: start, window, minutesUntil };
+      }
+    }
+    if (next) break;
+  }
+
+  return next;
+}
+
+// Check if any window starts on the given day
+export function hasHappyHourOn(venue: Venue, day: string): boolean {
+  return venue.schedule.some(window => window.days.includes(day));
+}
+
+// All days with a happy hour, in week order starting Monday
+export function getScheduleDays(venue: Venue): string[] {
+  return MONDAY_FIRST.filter(day => hasHappyHourOn(venue, day));
+}
+
+// ["Monday", "Tuesday", "Wednesday", "Friday"] -> "Mon–Wed, Fri"
+export function formatDays(days: string[]): string {
+  const indexes = days.map(d => MONDAY_FIRST.indexOf(d)).filter(i => i !== -1).sort((a, b) => a - b);
+  if (indexes.length === 7) return 'Daily';
+
+  const runs: string[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= indexes.length; i++) {
+    if (i < indexes.length && indexes[i] === indexes[i - 1] + 1) continue;
+
+    const first = MONDAY_FIRST[indexes[runStart]].slice(0, 3);
+    const last = MONDAY_FIRST[indexes[i - 1]].slice(0, 3);
+    runs.push(i - 1 === runStart ? first : `${first}–${last}`);
+    runStart = i;
+  }
+
+  return runs.join(', ');
+}
@@ -0,0 +1,113 @@
+import type { Venue } from '../data/venues';
+import type { SearchOutcome, SearchRequest } from './searchEngine';
+import type { IndexSource, SearchWorkerRequest, SearchWorkerResponse } from './searchProtocol';
+import type { Suggestion } from './suggestions';
+
+// Where searches run: in the search worker, or on this thread when workers
+// aren't available
+export interface SearchBackend {
+  ready: Promise<IndexSource>;
+  search(request: SearchRequest): Promise<SearchOutcome>;
+  suggest(query: string): Promise<Suggestion[]>;
+  dispose(): void;
+}
+
+// The worker's answer to one search or suggest request
+type WorkerReply = Extract<SearchWorkerResponse, { type: 'results' | 'suggestions' }>;
+
+interface PendingRequest {
+  resolve: (reply: WorkerReply) => void;
+  reject: (err: Error) => void;
+}
+
+function createWorkerBackend(venues: Venue[]): SearchBackend {
+  const worker = new Worker(new URL('../workers/search.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingRequest>();
+  let nextRequestId = 0;
+
+  const send = (message: SearchWorkerRequest) => worker.postMessage(message);
+
+  const failAll = (err: Error) => {
+    pending.forEach(({ reject }) => reject(err));
+    pending.clear();
+  };
+
+  const ready = new Promise<IndexSource>((resolve, reject) => {
+    worker.addEventListener('message', (e: MessageEvent<SearchWorkerResponse>) => {
+      const message = e.data;
+
+      if (message.type === 'ready') {
+        resolve(message.source);
+      } else if (message.type === 'error' && message.requestId === null) {
+        reject(new Error(message.message));
+      } else if (message.requestId !== null) {
+        const request = pending.get(message.requestId);
+        pending.delete(message.requestId);
+        if (message.type === 'error') request?.reject(new Error(message.message));
+        else request?.resolve(message);
+      }
+    });
+
+    worker.addEventListener('error', (e) => {
+      const err = new Error(e.message || 'Search worker failed');
+      reject(err);
+      failAll(err);
+    });
+  });
+
+  const ask = (message: Extract<SearchWorkerRequest, { requestId: number }>) =>
+    new Promise<WorkerReply>((resolve, reject) => {
+      pending.set(message.requestId, { resolve, reject });
+      send(message);
+    });
+
+  send({ type: 'init', venues });
+
+  return {
+    ready,
+    async search(request) {
+      const reply = await ask({ type: 'search', requestId: ++nextRequestId, request });
+      if (reply.type !== 'results') throw new Error(`Search worker answered a search with ${reply.type}`);
+      return reply.outcome;
+    },
+    async suggest(query) {
+      const reply = await ask({ type: 'suggest', requestId: ++nextRequestId, query });
+      if (reply.type !== 'suggestions') throw new Error(`Search worker answered a suggest with ${reply.type}`);
+      return reply.suggestions;
+    },
+    dispose() {
+      worker.terminate();
+      failAll(new Error('Search worker stopped'));
+    },
+  };
+}
+
+// Same engine on the main thread, loaded on demand so the main bundle
+// doesn't carry a second copy of it
+export function createInlineBackend(venues: Venue[]): SearchBackend {
+  const loading = import('./loadSearchEngine').then(({ loadSearchEngine }) => loadSearchEngine(venues));
+
+  return {
+    ready: loading.then(({ source }) => source),
+    async search(request) {
+      const { engine } = await loading;
+      return engine.search(request);
+    },
+    async suggest(query) {
+      const { engine } = await loading;
+      return engine.suggest(query);
+    },
+    dispose() {},
+  };
+}
+
+export function createSearchBackend(venues: Venue[]): SearchBackend {
+  if (typeof Worker === 'undefined') return createInlineBackend(venues);
+
+  try {
+    return createWorkerBackend(venues);
+  } catch (err) {
+    console.warn('⚠️ Could not start search worker:', err);
+    return createInlineBackend(venues);
+  }
+}
@@ -0,0 +1,316 @@
+import { search, type Results } from '@orama/orama';
+import type { Venue } from '../data/venues';
+import type { ZonedTime } from './clock';
+import {
+  applyFilters,
+  buildWhereClause,
+  countFacet,
+  facetValueKey,
+  getActiveFilters,
+  getCheapestDrink,
+  getDistance,
+  isHappeningAt,
+  isStartingSoon,
+  type ActiveFilter,
+  type FacetCounts,
+  type FacetKey,
+  type FilterContext,
+  type Filters,
+  type WhereClause,
+} from './filters';
+import { highlightKey, splitWords } from './highlight';
+import { WEEKDAYS } from './schedule';
+import { buildSearchIndex, createWordLookup, searchProperties, toSearchDocument, type SearchIndex, type SearchProperty } from './searchIndex';
+import { getDealTerms, rankSuggestions, type Suggestion, type SuggestionCandidate, type SuggestionKind } from './suggestions';
+import { getSynonymKey, normalizeQuery } from './synonyms';
+
+// Everything a search depends on. The moment and favorites are resolved by the
+// caller, so the engine has no clock or storage of its own.
+export interface SearchRequest {
+  query: string;
+  filters: Filters;
+  moment: ZonedTime;
+  favoriteIds: string[];
+}
+
+export interface SearchOutcome {
+  // Matching venue ids, in display order
+  ids: string[];
+  facets: FacetCounts;
+  // Words in the venues' text that the query matched, as highlightKey gives them
+  matchedWords: string[];
+  searchTimeMs: number;
+}
+
+export interface SearchEngine {
+  search(request: SearchRequest): Promise<SearchOutcome>;
+  suggest(query: string): Promise<Suggestion[]>;
+}
+
+const PRICE_LEVELS = [1, 2, 3, 4];
+
+// Max price chips are cumulative: $$ counts both $ and $$ venues
+const PRICE_RANGES = PRICE_LEVELS.map(level => ({ from: 0, to: level }));
+
+// The values each facet counts, 'all' (null) included where the chips have one
+type FacetValues = { [K in FacetKey]: Filters[K][] };
+
+// Typo tolerance for full-text matches, shared with highlighting so the
+// highlighted words are always the ones the search matched
+const TOLERANCE = 0;
+
+// Query matches from the index, plus Orama's facet counts when asked for
+interface IndexMatch {
+  venues: Venue[];
+  facets?: Partial<FacetCounts>;
+}
+
+// Orama's facet counts for the chips it can count, keyed like FacetCounts
+function fromOramaFacets(results: Results<unknown>, facetValues: FacetValues): Partial<FacetCounts> {
+  const valuesOf = (property: string) => results.facets?.[property]?.values ?? {};
+  const countEach = <K extends FacetKey>(key: K, count: (value: Filters[K]) => number | undefined) =>
+    Object.fromEntries(facetValues[key].map(value => {
+      const valueKey = facetValueKey(value);
+      return [valueKey, valueKey === 'all' ? results.count : count(value) ?? 0];
+    }));
+
+  return {
+    neighborhoods: countEach('neighborhoods', ([value]) => valuesOf('neighborhood')[value]),
+    cuisines: countEach('cuisines', ([value]) => valuesOf('cuisine')[value]),
+    days: countEach('days', ([value]) => valuesOf('days')[value]),
+    maxPrice: countEach('maxPrice', value => valuesOf('priceLevel')[`0-${value}`]),
+  };
+}
+
+// Nearest first when sorting by distance, cheapest priced drink first when
+// sorting by price (venues without one last), otherwise live at the chosen
+// moment first, then starting soon, then by rating
+function sortResults(results: Venue[], filters: Filters, { moment }: FilterContext): Venue[] {
+  if (filters.sortBy === 'distance' && filters.origin) {
+    const distances = new Map(results.map(v => [v.id, getDistance(v, filters.origin) ?? Infinity]));
+    return [...results].sort((a, b) => distances.get(a.id)! - distances.get(b.id)!);
+  }
+
+  if (filters.sortBy === 'cheapest-drink') {
+    const prices = new Map(results.map(v => [v.id, getCheapestDrink(v) ?? Infinity]));
+    return [...results].sort((a, b) => prices.get(a.id)! - prices.get(b.id)! || b.rating - a.rating);
+  }
+
+  const rank = (v: Venue) =>
+    isHappeningAt(v, moment) ? 2 : isStartingSoon(v, moment, filters.soonWithinMinutes) ? 1 : 0;
+  return [...results].sort((a, b) => {
+    const aRank = rank(a);
+    const bRank = rank(b);
+    if (aRank !== bRank) return bRank - aRank;
+    return b.rating - a.rating;
+  });
+}
+
+// The search core: the index plus the filter and sort pipeline. Hosted by the
+// search worker in the browser, and usable directly anywhere without one.
+export async function createSearchEngine(venues: Venue[], index?: SearchIndex): Promise<SearchEngine> {
+  const db = index || await buildSearchIndex(venues);
+  const venuesById = new Map(venues.map(v => [v.id, v]));
+
+  const neighborhoodCounts = new Map<string, number>();
+  venues.forEach(v => neighborhoodCounts.set(v.neighborhood, (neighborhoodCounts.get(v.neighborhood) ?? 0) + 1));
+  const dealTerms = getDealTerms(venues);
+
+  const facetValues: FacetValues = {
+    neighborhoods: [[], ...[...new Set(venues.map(v => v.neighborhood))].map(n => [n])],
+    cuisines: [[], ...[...new Set(venues.map(v => v.cuisine))].map(c => [c])],
+    days: WEEKDAYS.map(day => [day]),
+    maxPrice: PRICE_LEVELS,
+    dealType: ['all', 'drinks', 'food'],
+    verifiedOnly: [true],
+  };
+
+  // Each indexed word mapped to the words as written in the venues' text.
+  // Synonyms aren't shown on the page, so they have no entry of their own.
+  const displayedWords = new Map<string, Set<string>>();
+  for (const venue of venues) {
+    for (const text of [venue.name, venue.dealText, venue.neighborhood, venue.cuisine, ...venue.drinks, ...venue.food]) {
+      splitWords(text).forEach((word, i) => {
+        if (i % 2 === 0) return;
+        for (const token of db.tokenizer.tokenize(word)) {
+          const words = displayedWords.get(token) ?? new Set();
+          displayedWords.set(token, words.add(highlightKey(word)));
+        }
+      });
+    }
+  }
+
+  // Throws here, when the engine starts, if Orama's internals have moved
+  const lookupWords = createWordLookup(db);
+  const findWords = (property: SearchProperty, token: string) => lookupWords(property, token, TOLERANCE);
+
+  // The words the query matched, found with the lookup Orama's search does
+  // for each token, so prefixes, stems and typos highlight what they found
+  function getMatchedWords(query: string): string[] {
+    if (!query) return [];
+
+    try {
+      const tokens = db.tokenizer.tokenize(query);
+      const matched = new Set<string>();
+
+      for (const property of searchProperties) {
+        for (const token of tokens) {
+          const found = findWords(property, token);
+          // A synonym match ("ipa") shows as the word it stands for ("craft beer")
+          const words = property === 'synonyms' ? found.flatMap(word => getSynonymKey(word) ?? []) : found;
+          words.forEach(word => db.tokenizer.tokenize(word).forEach(t => matched.add(t)));
+        }
+      }
+
+      return [...new Set([...matched].flatMap(token => [...displayedWords.get(token) ?? []]))];
+    } catch (err) {
+      console.error('Highlight error:', err);
+      return [];
+    }
+  }
+
+  // Suggestions for what's typed so far, matched in the index the way search
+  // matches: every typed word as a prefix, with the same typo tolerance and
+  // synonyms. Neighborhood aliases ("soco") suggest the neighborhood.
+  async function getSuggestions(query: string): Promise<SuggestionCandidate[]> {
+    const term = normalizeQuery(query.trim());
+    const tokens = db.tokenizer.tokenize(term);
+    if (tokens.length === 0) return [];
+
+    // The dictionary groups the typed words find: "marg" -> "margarita"
+    const synonymKeys = new Set(tokens.flatMap(token => findWords('synonyms', token).flatMap(word => getSynonymKey(word) ?? [])));
+
+    const [byName, byNeighborhood, byCuisine] = await Promise.all([
+      search(db, { term, properties: ['name'], tolerance: TOLERANCE, threshold: 0, limit: venues.length }),
+      search(db, { term, properties: ['neighborhood'], tolerance: TOLERANCE, threshold: 0, facets: { neighborhood: { limit: venues.length } } }),
+      search(db, { term, properties: ['cuisine'], tolerance: TOLERANCE, threshold: 0, facets: { cuisine: { limit: venues.length } } }),
+    ]);
+
+    const neighborhoods = new Map(Object.entries(byNeighborhood.facets?.neighborhood?.values ?? {}));
+    neighborhoodCounts.forEach((count, name) => {
+      if (synonymKeys.has(name.toLowerCase())) neighborhoods.set(name, count);
+    });
+    const cuisines = new Map(Object.entries(byCuisine.facets?.cuisine?.values ?? {}));
+
+    // A deal term matches when each typed word finds one of its words in the
+    // deal text, or when it belongs to a dictionary group the query found
+    const dealWords = tokens.map(token => new Set(findWords('dealText', token)));
+    const deals = [...dealTerms].filter(([dealTerm]) => {
+      const words = db.tokenizer.tokenize(dealTerm);
+      return dealWords.every(found => words.some(word => found.has(word))) ||
+        synonymKeys.has(getSynonymKey(normalizeQuery(dealTerm)) ?? '');
+    });
+
+    const counted = (kind: SuggestionKind, counts: Iterable<[string, number]>) =>
+      [...counts].flatMap(([value, weight]): SuggestionCandidate[] => weight > 0 ? [{ kind, label: value, value, weight }] : []);
+
+    return [
+      ...byName.hits.flatMap((hit): SuggestionCandidate[] => {
+        const venue = venuesById.get(hit.id);
+        return venue ? [{ kind: 'venue', label: venue.name, value: venue.id, weight: venue.rating }] : [];
+      }),
+      ...counted('neighborhood', neighborhoods),
+      ...counted('cuisine', cuisines),
+      ...counted('deal', deals),
+    ];
+  }
+
+  // Full-text match and where clauses in the index. If Orama throws, fall
+  // back to a plain substring match over the same properties; the filters,
+  // sort and counts that follow are identical either way.
+  async function queryIndex(query: string, where: WhereClause | undefined, withFacets: boolean): Promise<IndexMatch> {
+    try {
+      const results = await search(db, {
+        term: query,
+        properties: [...searchProperties],
+        tolerance: TOLERANCE,
+        limit: venues.length,
+        where,
+        ...(withFacets && {
+          facets: {
+            neighborhood: { limit: venues.length },
+            cuisine: { limit: venues.length },
+            days: { limit: WEEKDAYS.length },
+            priceLevel: { ranges: PRICE_RANGES },
+          },
+        }),
+      });
+      return {
+        venues: results.hits.flatMap(hit => {
+          const venue = venuesById.get(hit.id);
+          return venue ? [venue] : [];
+        }),
+        facets: withFacets ? fromOramaFacets(results, facetValues) : undefined,
+      };
+    } catch (err) {
+      console.error('Search error:', err);
+      const q = query.toLowerCase();
+      return {
+        venues: venues.filter(venue => {
+          const document = toSearchDocument(venue);
+          return searchProperties.some(property => {
+            const value = document[property];
+            return (Array.isArray(value) ? value : [value]).some(text => text.toLowerCase().includes(q));
+          });
+        }),
+      };
+    }
+  }
+
+  // Counts for every chip against the other active filters. Orama's facets
+  // are exact when nothing else narrows the query matches; otherwise count
+  // through the same predicates the results use.
+  function countFacets(matches: IndexMatch, filters: Filters, active: ActiveFilter[], context: FilterContext): FacetCounts {
+    const count = <K extends FacetKey>(key: K) => {
+      const fromIndex = matches.facets?.[key];
+      return fromIndex && active.every(filter => filter.key === key)
+        ? fromIndex
+        : countFacet(matches.venues, key, facetValues[key], filters, context);
+    };
+
+    return {
+      neighborhoods: count('neighborhoods'),
+      cuisines: count('cuisines'),
+      days: count('days'),
+      maxPrice: count('maxPrice'),
+      dealType: count('dealType'),
+      verifiedOnly: count('verifiedOnly'),
+    };
+  }
+
+  async function runSearch({ query, filters, moment, favoriteIds }: SearchRequest) {
+    const context: FilterContext = { moment, favoriteIds: new Set(favoriteIds) };
+    const active = getActiveFilters(filters);
+    const where = buildWhereClause(active);
+
+    // Dictionary words are searched as listed ("Margs" -> "marg"); the index
+    // holds every word of each group a venue mentions
+    const term = normalizeQuery(query.trim());
+
+    // Every query match feeds the counts; the where clauses only narrow the results
+    const matches = await queryIndex(term, undefined, true);
+    const candidates = where ? (await queryIndex(term, where, false)).venues : matches.venues;
+
+    return {
+      results: sortResults(applyFilters(candidates, active, context), filters, context),
+      facets: countFacets(matches, filters, active, context),
+      matchedWords: getMatchedWords(term),
+    };
+  }
+
+  return {
+    async search(request) {
+      const startSearch = performance.now();
+      const { results, facets, matchedWords } = await runSearch(request);
+      return { ids: results.map(v => v.id), facets, matchedWords, searchTimeMs: performance.now() - startSearch };
+    },
+    async suggest(query) {
+      try {
+        return rankSuggestions(await getSuggestions(query));
+      } catch (err) {
+        console.error('Suggestion error:', err);
+        return [];
+      }
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import { create, insertMultiple, load, save, type Orama } from '@orama/orama';
+import type { Venue } from '../data/venues';
+import { getVenueLocation } from './geo';
+import { getScheduleDays } from './schedule';
+import { getSynonymTerms } from './synonyms';
+
+// Bump whenever the schema or toSearchDocument changes shape
+const INDEX_FORMAT = 2;
+
+export const searchSchema = {
+  name: 'string',
+  neighborhood: 'string',
+  cuisine: 'string',
+  dealText: 'string',
+  address: 'string',
+  drinks: 'string[]',
+  food: 'string[]',
+  days: 'string[]',
+  // What the venue's aliases ("margs", "SoCo") stand for
+  synonyms: 'string[]',
+  priceLevel: 'number',
+  location: 'geopoint',
+} as const;
+
+export type SearchIndex = Orama<typeof searchSchema>;
+
+// Properties a query's text is matched against
+export const searchProperties = ['name', 'dealText', 'neighborhood', 'cuisine', 'drinks', 'food', 'synonyms'] as const;
+
+export type SearchProperty = typeof searchProperties[number];
+
+// Indexed words in a property that a query token finds, by the same lookup
+// Orama's search runs for each token
+export type WordLookup = (property: SearchProperty, token: string, tolerance: number) => string[];
+
+// The part of Orama's index store that says which indexed words a token
+// matches. It isn't public API, so @orama/orama is pinned to an exact
+// version and createWordLookup checks the shape before anything relies on it.
+interface RadixIndexStore {
+  indexes?: Record<string, {
+    type?: string;
+    node?: { find?(params: { term: string; exact: boolean; tolerance: number }): Record<string, unknown> };
+  }>;
+}
+
+// A serialized index plus the version of the data it was built from
+export interface SearchIndexSnapshot {
+  version: string;
+  venueCount: number;
+  data: ReturnType<typeof save>;
+}
+
+// Only what's searched or filtered on; results are looked up by id
+export function toSearchDocument(venue: Venue) {
+  const location = getVenueLocation(venue);
+  return {
+    id: venue.id,
+    name: venue.name,
+    neighborhood: venue.neighborhood,
+    cuisine: venue.cuisine,
+    dealText: venue.dealText,
+    address: venue.address,
+    drinks: venue.drinks,
+    food: venue.food,
+    days: getScheduleDays(venue),
+    synonyms: getSynonymTerms([venue.name, venue.dealText, venue.neighborhood, ...venue.drinks, ...venue.food]),
+    priceLevel: venue.priceLevel,
+    ...(location && { location: { lat: location.lat, lon: location.lng } }),
+  };
+}
+
+// 32-bit FNV-1a, as hex
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Hash of exactly what goes into the index, so a snapshot only matches the
+// data and indexing code it was built with
+export function getIndexVersion(venues: Venue[]): string {
+  const documents = venues.map(toSearchDocument);
+  return `${INDEX_FORMAT}-${venues.length}-${hashString(JSON.stringify([searchSchema, documents]))}`;
+}
+
+export async function buildSearchIndex(venues: Venue[]): Promise<SearchIndex> {
+  const db = await create({ schema: searchSchema });
+  await insertMultiple(db, venues.map(toSearchDocument));
+  return db;
+}
+
+export async function createSnapshot(venues: Venue[]): Promise<SearchIndexSnapshot> {
+  const db = await buildSearchIndex(venues);
+  // Fails the build, rather than highlighting and suggestions in the browser,
+  // if an Orama upgrade changed its index internals
+  createWordLookup(db);
+  return { version: getIndexVersion(venues), venueCount: venues.length, data: save(db) };
+}
+
+// Restore a prebuilt index, or null if it was built from different data
+export async function loadSnapshot(snapshot: SearchIndexSnapshot, venues: Venue[]): Promise<SearchIndex | null> {
+  if (snapshot.version !== getIndexVersion(venues)) return null;
+
+  const db = await create({ schema: searchSchema });
+  load(db, snapshot.data);
+  return db;
+}
+
+// Word lookups for highlighting and suggestions, which Orama's public API
+// doesn't offer. Throws if its radix trees aren't where they used to be.
+export function createWordLookup(db: SearchIndex): WordLookup {
+  const { indexes } = db.data.index as unknown as RadixIndexStore;
+
+  for (const property of searchProperties) {
+    const tree = indexes?.[property];
+    const probe = tree?.type === 'Radix' ? tree.node?.find?.({ term: 'a', exact: false, tolerance: 0 }) : undefined;
+    if (!probe || typeof probe !== 'object') {
+      throw new Error(`Orama's index internals changed: no radix tree lookup for "${property}". ` +
+        'Highlighting and suggestions read them directly; update createWordLookup for this @orama/orama version.');
+    }
+  }
+
+  return (property, token, tolerance) =>
+    Object.keys(indexes![property].node!.find!({ term: token, exact: false, tolerance }));
+}
@@ -0,0 +1,20 @@
+import type { Venue } from '../data/venues';
+import type { SearchOutcome, SearchRequest } from './searchEngine';
+import type { Suggestion } from './suggestions';
+
+// Whether the index came from the build's snapshot or was built in the browser
+export type IndexSource = 'prebuilt' | 'built';
+
+// Messages from the page to the search worker
+export type SearchWorkerRequest =
+  | { type: 'init'; venues: Venue[] }
+  | { type: 'search'; requestId: number; request: SearchRequest }
+  | { type: 'suggest'; requestId: number; query: string };
+
+// Messages from the search worker back to the page. An error without a
+// requestId means the index itself failed to start.
+export type SearchWorkerResponse =
+  | { type: 'ready'; source: IndexSource }
+  | { type: 'results'; requestId: number; outcome: SearchOutcome }
+  | { type: 'suggestions'; requestId: number; suggestions: Suggestion[] }
+  | { type: 'error'; requestId: number | null; message: string };
@@ -0,0 +1,43 @@
+import type { Venue } from '../data/venues';
+import { getDealItems } from './deals';
+
+export type SuggestionKind = 'venue' | 'neighborhood' | 'cuisine' | 'deal';
+
+export interface Suggestion {
+  kind: SuggestionKind;
+  label: string;
+  // Venue id for venues; the filter value or query text otherwise
+  value: string;
+}
+
+// A suggestion the index matched, before ranking
+export interface SuggestionCandidate extends Suggestion {
+  // Tie-breaker within a kind: rating for venues, how many venues match otherwise
+  weight: number;
+}
+
+const KIND_ORDER: SuggestionKind[] = ['venue', 'neighborhood', 'cuisine', 'deal'];
+const PER_KIND = 3;
+const MAX_SUGGESTIONS = 8;
+
+// Deal items as the parser read them ("pints", "oysters"), with how many
+// venues offer each
+export function getDealTerms(venues: Venue[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const venue of venues) {
+    new Set(getDealItems(venue).map(item => item.item.toLowerCase()))
+      .forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+  }
+  return counts;
+}
+
+// The best few of each kind, in kind order
+export function rankSuggestions(candidates: SuggestionCandidate[]): Suggestion[] {
+  return KIND_ORDER
+    .flatMap(kind => candidates
+      .filter(candidate => candidate.kind === kind)
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, PER_KIND))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ kind, label, value }) => ({ kind, label, value }));
+}
@@ -0,0 +1,66 @@
+import { drinkSynonyms, foodSynonyms, neighborhoodSynonyms } from '../data/synonyms';
+
+const drinkGroups: Record<string, string[]> = Object.assign({}, ...Object.values(drinkSynonyms));
+
+const allSynonyms = { ...neighborhoodSynonyms, ...drinkGroups, ...foodSynonyms };
+
+// Every word in the dictionary, keys and aliases, to the key of its group
+const termByWord = new Map(
+  Object.entries(allSynonyms).flatMap(([term, aliases]) =>
+    [term, ...aliases].map(word => [word.toLowerCase(), term] as const)),
+);
+
+// Word boundaries that count accented letters as part of a word, as \b
+// doesn't: "rosé" would never match at its final "é". Use with the u flag.
+export const WORD_START = String.raw`(?<![\p{L}\p{N}_])`;
+export const WORD_END = String.raw`(?![\p{L}\p{N}_])`;
+
+// Longest first, so "sparkling wine" wins over "wine"
+function wordsPattern(words: string[], flags = 'giu'): RegExp {
+  const alternatives = [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+  return new RegExp(String.raw`${WORD_START}(${alternatives.join('|')})(?:e?s)?${WORD_END}`, flags);
+}
+
+const dictionaryPattern = wordsPattern([...termByWord.keys()]);
+const drinkPattern = wordsPattern(Object.entries(drinkGroups).flat(2), 'iu');
+const foodPattern = wordsPattern(Object.entries(foodSynonyms).flat(2), 'iu');
+
+// As listed in the dictionary: lower case, single spaces, no plural
+function dictionaryForm(word: string): string {
+  return word.toLowerCase().replace(/\s+/g, ' ');
+}
+
+// "SoCo Margs" -> "soco marg", so plurals and casing of dictionary words
+// still match the words getSynonymTerms indexed
+export function normalizeQuery(query: string): string {
+  return query.replace(dictionaryPattern, (_match, word: string) => dictionaryForm(word));
+}
+
+// Every word of each group the text mentions, indexed alongside it so a
+// venue whose deal says "$5 margaritas" is also found by "marg", and one
+// in South Congress by "soco"
+export function getSynonymTerms(texts: string[]): string[] {
+  const words = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(dictionaryPattern)) {
+      const term = termByWord.get(dictionaryForm(match[1]))!;
+      [term, ...allSynonyms[term]].forEach(word => words.add(word.toLowerCase()));
+    }
+  }
+  return [...words];
+}
+
+// The word a dictionary word stands for: "ipa" -> "craft beer"
+export function getSynonymKey(word: string): string | undefined {
+  return termByWord.get(dictionaryForm(word));
+}
+
+export function mentionsDrink(text: string): boolean {
+  return drinkPattern.test(text);
+}
+
+export function mentionsFood(text: string): boolean {
+  return foodPattern.test(text);
+}
@@ -0,0 +1,128 @@
+import { cuisines, neighborhoods } from '../data/venues';
+import { neighborhoodCentroids } from '../data/neighborhoods';
+import type { Filters } from './filters';
+import type { SearchOrigin } from './geo';
+import { WEEKDAYS } from './schedule';
+
+export interface SearchState {
+  query: string;
+  filters: Filters;
+}
+
+const TIME_FILTERS: Filters['timeFilter'][] = ['all', 'live', 'soon', 'day'];
+const DEAL_TYPES: Filters['dealType'][] = ['all', 'drinks', 'food'];
+const SORT_OPTIONS: Filters['sortBy'][] = ['relevance', 'distance', 'cheapest-drink'];
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[]): T | null {
+  return value !== null && (allowed as readonly string[]).includes(value) ? value as T : null;
+}
+
+// Repeated params (?hood=A&hood=B), keeping only known values, once each
+function allOf(values: string[], allowed: readonly string[]): string[] | null {
+  const known = [...new Set(values)].filter(value => allowed.includes(value));
+  return known.length > 0 ? known : null;
+}
+
+function positiveNumber(value: string | null): number | null {
+  const n = value === null ? NaN : Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+// "Friday@17:30" <-> { day: 'Friday', minutes: 1050 }
+function parsePlannedAt(value: string | null): Filters['plannedAt'] {
+  const match = value?.match(/^(\w+)@(\d{1,2}):(\d{2})$/);
+  if (!match || !WEEKDAYS.includes(match[1])) return null;
+
+  const hours = parseInt(match[2], 10);
+  const minutes = parseInt(match[3], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return { day: match[1], minutes: hours * 60 + minutes };
+}
+
+function formatPlannedAt({ day, minutes }: NonNullable<Filters['plannedAt']>): string {
+  return `${day}@${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// "beer:4" <-> { item: 'beer', maxPrice: 4 }
+function parseDealPrice(value: string | null): Filters['dealPrice'] {
+  const match = value?.match(/^([^:]+):(\d+(?:\.\d{1,2})?)$/);
+  return match ? { item: match[1].trim(), maxPrice: Number(match[2]) } : null;
+}
+
+// "hood:East Austin" or "30.2672,-97.7431"
+function parseOrigin(value: string | null): SearchOrigin | null {
+  if (!value) return null;
+
+  if (value.startsWith('hood:')) {
+    const name = value.slice(5);
+    const centroid = neighborhoodCentroids[name];
+    return centroid ? { ...centroid, label: name, source: 'neighborhood' } : null;
+  }
+
+  const [lat, lng] = value.split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng, label: 'Picked point', source: 'picked' };
+}
+
+// Device locations are deliberately left out so a shared link never
+// reveals where the sender is standing
+function formatOrigin(origin: SearchOrigin): string | null {
+  if (origin.source === 'neighborhood') return `hood:${origin.label}`;
+  if (origin.source === 'picked') return `${origin.lat.toFixed(4)},${origin.lng.toFixed(4)}`;
+  return null;
+}
+
+// Read query and filters from a URL query string. Anything unknown or no longer
+// in the dataset (e.g. a renamed neighborhood) falls back to its default.
+export function parseSearchState(search: string, defaults: Filters): SearchState {
+  const params = new URLSearchParams(search);
+  const price = positiveNumber(params.get('price'));
+
+  return {
+    query: params.get('q') || '',
+    filters: {
+      neighborhoods: allOf(params.getAll('hood'), neighborhoods) ?? defaults.neighborhoods,
+      cuisines: allOf(params.getAll('cuisine'), cuisines) ?? defaults.cuisines,
+      days: allOf(params.getAll('day'), WEEKDAYS) ?? defaults.days,
+      maxPrice: price !== null && Number.isInteger(price) && price <= 4 ? price : defaults.maxPrice,
+      timeFilter: oneOf(params.get('when'), TIME_FILTERS) ?? defaults.timeFilter,
+      plannedAt: parsePlannedAt(params.get('at')) ?? defaults.plannedAt,
+      soonWithinMinutes: positiveNumber(params.get('within')) ?? defaults.soonWithinMinutes,
+      dealType: oneOf(params.get('deal'), DEAL_TYPES) ?? defaults.dealType,
+      verifiedOnly: params.get('verified') === '1' || defaults.verifiedOnly,
+      origin: parseOrigin(params.get('near')) ?? defaults.origin,
+      maxDistance: positiveNumber(params.get('radius')) ?? defaults.maxDistance,
+      sortBy: oneOf(params.get('sort'), SORT_OPTIONS) ?? defaults.sortBy,
+      favoritesOnly: params.get('fav') === '1' || defaults.favoritesOnly,
+      dealPrice: parseDealPrice(params.get('under')) ?? defaults.dealPrice,
+    },
+  };
+}
+
+// Write query and filters as a URL query string, leaving out defaults
+export function serializeSearchState({ query, filters }: SearchState, defaults: Filters): string {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | null, isDefault: boolean) => {
+    if (value !== null && !isDefault) params.set(key, String(value));
+  };
+
+  set('q', query.trim() || null, false);
+  filters.neighborhoods.forEach(name => params.append('hood', name));
+  filters.cuisines.forEach(cuisine => params.append('cuisine', cuisine));
+  filters.days.forEach(day => params.append('day', day));
+  set('price', filters.maxPrice, filters.maxPrice === defaults.maxPrice);
+  set('when', filters.timeFilter, filters.timeFilter === defaults.timeFilter);
+  set('at', filters.plannedAt && formatPlannedAt(filters.plannedAt), false);
+  set('within', filters.soonWithinMinutes, filters.soonWithinMinutes === defaults.soonWithinMinutes);
+  set('deal', filters.dealType, filters.dealType === defaults.dealType);
+  set('verified', filters.verifiedOnly ? 1 : null, false);
+  set('near', filters.origin && formatOrigin(filters.origin), false);
+  set('radius', filters.maxDistance, filters.maxDistance === defaults.maxDistance);
+  set('sort', filters.sortBy, filters.sortBy === defaults.sortBy);
+  set('fav', filters.favoritesOnly ? 1 : null, false);
+  set('under', filters.dealPrice && `${filters.dealPrice.item}:${filters.dealPrice.maxPrice}`, false);
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
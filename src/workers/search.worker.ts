@@ -0,0 +1,44 @@
+import type { SearchEngine } from '../lib/searchEngine';
+import { loadSearchEngine } from '../lib/loadSearchEngine';
+import type { SearchWorkerRequest, SearchWorkerResponse } from '../lib/searchProtocol';
+
+// Hosts the search index and query pipeline off the main thread
+
+let engine: Promise<SearchEngine> | null = null;
+
+function respond(message: SearchWorkerResponse) {
+  self.postMessage(message);
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+self.addEventListener('message', async (e: MessageEvent<SearchWorkerRequest>) => {
+  const message = e.data;
+
+  if (message.type === 'init') {
+    const loading = loadSearchEngine(message.venues);
+    engine = loading.then(({ engine }) => engine);
+    try {
+      respond({ type: 'ready', source: (await loading).source });
+    } catch (err) {
+      respond({ type: 'error', requestId: null, message: errorMessage(err) });
+    }
+    return;
+  }
+
+  // Requests sent before the index is ready wait for it
+  try {
+    if (!engine) throw new Error(`Search worker received a ${message.type} before init`);
+    if (message.type === 'search') {
+      const outcome = await (await engine).search(message.request);
+      respond({ type: 'results', requestId: message.requestId, outcome });
+    } else {
+      const suggestions = await (await engine).suggest(message.query);
+      respond({ type: 'suggestions', requestId: message.requestId, suggestions });
+    }
+  } catch (err) {
+    respond({ type: 'error', requestId: message.requestId, message: errorMessage(err) });
+  }
+});
@@ -3,4 +3,8 @@ import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
+  // ES module workers, so the search worker can lazy-load the prebuilt index
+  worker: {
+    format: 'es',
+  },
 })